@@ -4,7 +4,10 @@ import StableSortVisualizer from './components/StableSortVisualizer';
 import TreeVisualizer from './components/TreeVisualizer';
 
 function App() {
-  const [activeView, setActiveView] = useState<'sorting' | 'tree'>('sorting');
+  const [activeView, setActiveView] = useState<'sorting' | 'tree'>(
+    // Shared tree links open straight into the tree visualiser
+    window.location.hash.startsWith('#tree=') ? 'tree' : 'sorting'
+  );
 
   return (
     <div className="App">
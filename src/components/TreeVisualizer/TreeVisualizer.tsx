@@ -1,53 +1,176 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import * as d3 from 'd3';
 import './TreeVisualizer.css';
 import AnimationUtils from './animationUtils';
 import TreeUtils from './treeUtils';
-import { TreeNode, LinkData, AnimatedLinkData, Position, PreviewNode, RotationDirection, SimulationNode } from './types';
-import { RenderUtils, Node, Link, RotationControls } from './components';
-
-// Props for Node component
-export interface NodeProps {
-    node: TreeNode;
-    onDragStart: (event: any, node: TreeNode) => void;
-    onDrag: (event: any, node: TreeNode) => void;
-    onDragEnd: (event: any, node: TreeNode) => void;
-    onMouseEnter: (id: string) => void;
-    onMouseLeave: () => void;
-    onContextMenu: (event: React.MouseEvent, node: TreeNode) => void;
-    isHighlighted: boolean;
-}
-
-// Props for Link component
-export interface LinkProps {
-    link: LinkData | AnimatedLinkData;
-    nodeAnimationComplete?: boolean;
-}
-
-// Props for RotationControls component
-export interface RotationControlsProps {
-    node: TreeNode;
-    onRotateLeft: (id: string) => void;
-    onRotateRight: (id: string) => void;
-}
+import BSTUtils from './bstUtils';
+import LayoutUtils from './layoutUtils';
+import AVLUtils from './avlUtils';
+import RedBlackUtils from './redBlackUtils';
+import SplayUtils from './splayUtils';
+import HistoryUtils from './historyUtils';
+import SaveUtils from './saveUtils';
+import SequenceUtils from './sequenceUtils';
+import TraversalUtils from './traversalUtils';
+import StatsUtils from './statsUtils';
+import PlaybackUtils from './playbackUtils';
+import TimelineUtils from './timelineUtils';
+import ViewUtils from './viewUtils';
+import NarrationUtils from './narrationUtils';
+import LogUtils from './logUtils';
+import ExportUtils from './exportUtils';
+import ImportUtils from './importUtils';
+import AsciiUtils from './asciiUtils';
+import CodeUtils from './codeUtils';
+import QuizUtils from './quizUtils';
+import {
+    TreeNode,
+    LinkData,
+    Position,
+    PreviewNode,
+    RotationDirection,
+    ReplacementStrategy,
+    TreeMode,
+    PendingOperation,
+    RedBlackFixupStep,
+    SearchPath,
+    HistoryEntry,
+    HistoryState,
+    RecordedRotation,
+    TreeLoadResult,
+    TraversalOrder,
+    TraversalStep,
+    DoubleRotation,
+    DoubleRotationCase,
+    Timeline,
+    TimelinePlayback,
+    LayoutOptions,
+    ViewTransform,
+    FocusMove,
+    LogEntry,
+    LogKind,
+    ExportFormat,
+    TreeImportResult,
+    AsciiFormat,
+    RotationPhaseName,
+    CodeTrace,
+    QuizDifficulty,
+    QuizQuestion,
+    QuizScore
+} from './types';
+import { RenderUtils, Node, Link, RotationControls, NodeEditor } from './components';
+
+// The tree is laid out centred in this width; the view transform maps tree coordinates onto the canvas
+const layoutWidth = 1100;
+const treeLayoutOptions: Partial<LayoutOptions> = { width: layoutWidth, minSpacing: 50 };
+
+// Save a file to the user's downloads
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = filename;
+    anchor.click();
+    // Some browsers start the download after click() returns, so the URL is kept until then
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// What moves keys after each insert, by mode
+const reshapedBy: Record<TreeMode, string> = { 'bst': 'nothing', 'avl': 'AVL rebalancing', 'red-black': 'red-black rebalancing', 'splay': 'splaying' };
+
+// Note for a level-order build that the mode has reshaped, or '' if it kept the shape it was given
+const describeReshape = (built: TreeNode[], asked: TreeNode[] | null, mode: TreeMode): string => {
+    if (!asked || !TreeUtils.findDifference(built, asked)) return '';
+    return `; ${reshapedBy[mode]} changed its shape from the level-order array`;
+};
+
+// Nodes an undoable rotation moved, for the log
+const rotatedNodeIds = (entry: HistoryEntry) => (entry.rotations ?? []).flatMap(rotation => [rotation.nodeId, rotation.childId]);
+
+// Entries in the export menu
+const exportOptions: { format: ExportFormat, label: string }[] = [
+    { format: 'svg', label: 'SVG image' },
+    { format: 'png-2x', label: 'PNG image (2x)' },
+    { format: 'png-4x', label: 'PNG image (4x)' },
+    { format: 'tikz', label: 'LaTeX TikZ (forest)' },
+    { format: 'dot', label: 'Graphviz DOT' }
+];
 
 const TreeVisualizer: React.FC = () => {
     // Main state
     const [nodes, setNodes] = useState<TreeNode[]>([]);
     const [links, setLinks] = useState<LinkData[]>([]);
-    const [animatedLinks, setAnimatedLinks] = useState<AnimatedLinkData[]>([]);
     const [previewNode, setPreviewNode] = useState<PreviewNode | null>(null);
     const [previewLink, setPreviewLink] = useState<LinkData | null>(null);
     const [showRotationFor, setShowRotationFor] = useState<string | null>(null);
     const [isAnimating, setIsAnimating] = useState<boolean>(false);
-    const [nodeAnimationComplete, setNodeAnimationComplete] = useState<boolean>(false);
-    const simulationRef = useRef<d3.Simulation<d3.SimulationNodeDatum, undefined> | null>(null);
-    const animationTimerRef = useRef<number | null>(null);
+    const [insertValue, setInsertValue] = useState<string>('');
+    const [searchPath, setSearchPath] = useState<string[]>([]);
+    const [operationMessage, setOperationMessage] = useState<string>('');
+    const [replacementStrategy, setReplacementStrategy] = useState<ReplacementStrategy>('successor');
+    const [autoLayout, setAutoLayout] = useState<boolean>(true);
+    const [layoutPending, setLayoutPending] = useState<boolean>(false);
+    const [treeMode, setTreeMode] = useState<TreeMode>('bst');
+    const [pendingOperations, setPendingOperations] = useState<PendingOperation[]>([]);
+    const [flaggedNodeId, setFlaggedNodeId] = useState<string | null>(null);
+    const [history, setHistory] = useState<HistoryState>(HistoryUtils.empty());
+    const [pendingHistory, setPendingHistory] = useState<Omit<HistoryEntry, 'after'> | null>(null);
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+    const [buildInput, setBuildInput] = useState<string>('');
+    const [animateBuild, setAnimateBuild] = useState<boolean>(true);
+    const [buildQueue, setBuildQueue] = useState<number[] | null>(null); // Keys still to insert during an animated build
+    const [traversalOrder, setTraversalOrder] = useState<TraversalOrder>('in-order');
+    const [traversalSteps, setTraversalSteps] = useState<TraversalStep[]>([]);
+    const [traversalIndex, setTraversalIndex] = useState<number>(-1); // Last step shown, -1 before the first
+    const [isTraversalPlaying, setIsTraversalPlaying] = useState<boolean>(false);
+    const [showTraversalPending, setShowTraversalPending] = useState<boolean>(false);
+    const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
+    const [editError, setEditError] = useState<string | null>(null);
+    const [showRanges, setShowRanges] = useState<boolean>(false);
+    const [rotationRoles, setRotationRoles] = useState<DoubleRotation | null>(null); // x, y and z of a running double rotation
+    const [playback, setPlayback] = useState<TimelinePlayback | null>(null);
+    const [playbackTime, setPlaybackTime] = useState<number>(0); // Milliseconds into the playing timeline
+    const [isPlaybackPaused, setIsPlaybackPaused] = useState<boolean>(false);
+    const [playbackSpeed, setPlaybackSpeed] = useState<number>(1);
+    const [pauseEachPhase, setPauseEachPhase] = useState<boolean>(false);
+    const [canvasSize, setCanvasSize] = useState<{ width: number, height: number }>({ width: layoutWidth, height: 800 });
+    const [viewTransform, setViewTransform] = useState<ViewTransform>(ViewUtils.identity);
+    const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null); // Node tapped on a touch screen
+    const [focusedNodeId, setFocusedNodeId] = useState<string | null>(null); // Node reached with the arrow keys
+    const [announcement, setAnnouncement] = useState<string>(''); // Read out by screen readers
+    const [operationLog, setOperationLog] = useState<LogEntry[]>([]);
+    const [highlightedLogId, setHighlightedLogId] = useState<string | null>(null); // Log entry whose nodes are highlighted
+    const [showExportMenu, setShowExportMenu] = useState<boolean>(false);
+    const [importText, setImportText] = useState<string>('');
+    const [importError, setImportError] = useState<Extract<TreeImportResult, { ok: false }> | null>(null);
+    const [asciiFormat, setAsciiFormat] = useState<AsciiFormat>('show-tree');
+    const [showCode, setShowCode] = useState<boolean>(true);
+    const [codeTrace, setCodeTrace] = useState<CodeTrace | null>(null); // C line reached by the last search, insert or delete step
+    const [quizDifficulty, setQuizDifficulty] = useState<QuizDifficulty>('easy');
+    const [quizQuestion, setQuizQuestion] = useState<QuizQuestion | null>(null);
+    const [quizResult, setQuizResult] = useState<{ correct: boolean, message: string } | null>(null); // Set once the question is checked
+    const [quizScore, setQuizScore] = useState<QuizScore>({ correct: 0, attempted: 0 });
+    const [treeBeforeQuiz, setTreeBeforeQuiz] = useState<{ nodes: TreeNode[], mode: TreeMode } | null>(null); // Put back when the quiz ends
+    const [codeRotation, setCodeRotation] = useState<{ nodeId: string, direction: RotationDirection } | null>(null); // Rotation whose phases pick the C line
+    const stepTimerRef = useRef<number | null>(null);
+    const remainingStepsRef = useRef<Array<() => void>>([]); // Steps of the running sequence not yet played
 
     // Refs
     const svgRef = useRef<SVGSVGElement>(null);
-    const svgWidth = 1100;
-    const svgHeight = 800;
+    const canvasContainerRef = useRef<HTMLDivElement>(null);
+    const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+    const lastPointerTypeRef = useRef<string>('mouse'); // Whether the last press was a mouse, touch or pen
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const insertInputRef = useRef<HTMLInputElement>(null);
+    const logListRef = useRef<HTMLOListElement>(null);
+    const importInputRef = useRef<HTMLTextAreaElement>(null);
+    const dragStartRef = useRef<Position | null>(null); // Where the node being dragged started
+    const fragmentCheckedRef = useRef<boolean>(false); // The URL fragment is only read on first load
+    const buildShapeRef = useRef<TreeNode[] | null>(null); // Shape a level-order array asked for, when the mode may change it
+    const stepDelay = 700; // Milliseconds between steps when animating an insert or delete
+    const maxHistory = 100; // Oldest undo entries are dropped beyond this
+    const maxLogEntries = 500; // Oldest log entries are dropped beyond this
+    const phaseDuration = 600; // Milliseconds per rotation phase at normal speed
 
     // Update links whenever node structure changes
     useEffect(() => {
@@ -89,6 +212,27 @@ const TreeVisualizer: React.FC = () => {
         setLinks(computedLinks);
     }, [nodes]);
 
+    // Start recording an undoable edit from the current tree
+    // If an edit is already being recorded (e.g. an insert followed by rebalancing) it is extended instead
+    const beginHistoryEntry = useCallback((label: string, rotations?: RecordedRotation[]) => {
+        setPendingHistory(prev => prev ?? { label, before: nodes, rotations });
+    }, [nodes]);
+
+    // Record an edit in the operation log as a sentence, with the nodes it involved
+    const logOperation = useCallback((kind: LogKind, text: string, nodeIds: string[] = []) => {
+        setOperationLog(prev => [...prev, LogUtils.createEntry(kind, text, nodeIds)].slice(-maxLogEntries));
+    }, [maxLogEntries]);
+
+    // Convert a pointer position into tree coordinates, undoing any CSS scaling and the pan and zoom
+    const toTreePoint = useCallback((event: { clientX: number, clientY: number }): Position => {
+        const svg = svgRef.current;
+        const matrix = svg?.getScreenCTM();
+        if (!svg || !matrix) return { x: event.clientX, y: event.clientY };
+
+        const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+        return ViewUtils.toTreePoint(viewTransform, point);
+    }, [viewTransform]);
+
     // Finding a close node for preview/interaction with minimum and maximum distance constraints
     const findCloseNode = useCallback((x: number, y: number, minDistance: number, maxDistance: number): TreeNode | null => {
         let closestNode = null;
@@ -158,13 +302,47 @@ const TreeVisualizer: React.FC = () => {
         }
     }, []);
 
-    // Create preview node and link when moving mouse near existing node
-    const handleMouseMove = useCallback((event: React.MouseEvent<SVGSVGElement>) => {
-        if (!svgRef.current) return;
+    // Work out the node that would be created in a slot next to an existing node
+    // Returns null if the slot is taken or no key would fit there
+    const getSlotPreview = useCallback((slotNode: TreeNode, isLeft: boolean, isChild: boolean): PreviewNode | null => {
+        if (isChild) {
+            // Only offer a child slot that is not already occupied
+            if ((isLeft && slotNode.left) || (!isLeft && slotNode.right)) return null;
+        } else {
+            // A new root over one subtree leaves the other side's black height short,
+            // which no recolouring fixes, so red-black trees only grow downwards
+            if (treeMode === 'red-black') return null;
+
+            // Only offer a parent slot to a node that has no parent
+            const hasParent = nodes.some(n =>
+                (n.left && n.left.id === slotNode.id) ||
+                (n.right && n.right.id === slotNode.id)
+            );
+            if (hasParent) return null;
+        }
 
-        const svgRect = svgRef.current.getBoundingClientRect();
-        const x = event.clientX - svgRect.left;
-        const y = event.clientY - svgRect.top;
+        // Calculate default value using the getDefaultChildNodeValue function
+        // This will return -1 if no valid value is available
+        const value = getDefaultChildNodeValue(slotNode, isLeft, nodes);
+        if (value === -1) return null;
+
+        // Position with spacing
+        return {
+            x: slotNode.x + (isLeft ? -80 : 80),
+            y: slotNode.y + (isChild ? 80 : -80),
+            value,
+            parentId: slotNode.id,
+            isLeft,
+            isChild
+        };
+    }, [nodes, treeMode, getDefaultChildNodeValue]);
+
+    // Create preview node and link when a mouse or hovering pen moves near an existing node
+    // Touch has no hover, so touches select nodes on tap instead (see handleClick)
+    const handlePointerMove = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+        if (!svgRef.current || event.pointerType === 'touch') return;
+
+        const { x, y } = toTreePoint(event);
 
         // First check if we're very close to a node (for rotation controls)
         // Using a small minimum distance (0) and relatively small maximum distance (40)
@@ -192,62 +370,32 @@ const TreeVisualizer: React.FC = () => {
             const isLeft = dx < 0;
             const isChild = dy > 0;
 
-            // Only show preview for adding children if the position is not already occupied
-            if (isChild) {
-                // Check if the corresponding child position is already occupied
-                if ((isLeft && nodeForPreview.left) || (!isLeft && nodeForPreview.right)) {
-                    // Position is already occupied, don't show preview
-                    setPreviewNode(null);
-                    setPreviewLink(null);
-                    return;
-                }
-            } else {
-                // For parent connections, check if this node already has a parent
-                const hasParent = nodes.some(n =>
-                    (n.left && n.left.id === nodeForPreview.id) ||
-                    (n.right && n.right.id === nodeForPreview.id)
-                );
-
-                // If it already has a parent, don't allow creating a parent
-                if (hasParent) {
-                    setPreviewNode(null);
-                    setPreviewLink(null);
-                    return;
-                }
-            }
-
-            // Calculate default value using the getDefaultChildNodeValue function
-            // This will return -1 if no valid value is available
-            const finalValue = getDefaultChildNodeValue(nodeForPreview, isLeft, nodes);
-
-            // Don't show preview if no valid value is available
-            if (finalValue === -1) {
+            const slot = getSlotPreview(nodeForPreview, isLeft, isChild);
+            if (!slot) {
                 setPreviewNode(null);
                 setPreviewLink(null);
                 return;
             }
 
-            // Position with spacing
-            const previewX = nodeForPreview.x + (isLeft ? -80 : 80);
-            const previewY = nodeForPreview.y + (isChild ? 80 : -80);
+            // Keep a typed key while the mouse stays over the same slot
+            const isSameSlot = previewNode?.parentId === nodeForPreview.id &&
+                previewNode.isLeft === isLeft &&
+                previewNode.isChild === isChild;
+            const typedValue = isSameSlot ? previewNode?.typedValue : undefined;
+            const previewValue = typedValue !== undefined && !isNaN(parseInt(typedValue, 10))
+                ? parseInt(typedValue, 10)
+                : slot.value;
 
             // Create a temporary preview node
             const tempPreviewNode = {
                 id: 'preview-node',
-                value: finalValue,
-                x: previewX,
-                y: previewY
+                value: previewValue,
+                x: slot.x,
+                y: slot.y
             };
 
             // Update preview
-            setPreviewNode({
-                x: previewX,
-                y: previewY,
-                value: finalValue,
-                parentId: nodeForPreview.id,
-                isLeft,
-                isChild
-            });
+            setPreviewNode({ ...slot, value: previewValue, typedValue });
 
             // Set preview link with direct reference to nodes
             setPreviewLink({
@@ -261,27 +409,67 @@ const TreeVisualizer: React.FC = () => {
             setPreviewNode(null);
             setPreviewLink(null);
         }
-    }, [findCloseNode, nodes, getDefaultChildNodeValue, previewNode]);
+    }, [findCloseNode, getSlotPreview, previewNode, toTreePoint]);
+
+    // Empty child slots of the node selected by touch, offered as places to tap
+    const selectedSlots = useMemo(() => {
+        const selected = selectedNodeId ? TreeUtils.findNodeById(nodes, selectedNodeId)?.node : undefined;
+        if (!selected || isAnimating) return [];
+
+        return [true, false]
+            .map(isLeft => getSlotPreview(selected, isLeft, true))
+            .filter((slot): slot is PreviewNode => slot !== null);
+    }, [selectedNodeId, nodes, isAnimating, getSlotPreview]);
 
     // Create a node when clicking
     const handleClick = useCallback((event: React.MouseEvent<SVGSVGElement>) => {
         if (!svgRef.current) return;
 
-        const svgRect = svgRef.current.getBoundingClientRect();
-        const x = event.clientX - svgRect.left;
-        const y = event.clientY - svgRect.top;
+        const { x, y } = toTreePoint(event);
+
+        // Touch and pen taps have no hover preview: a tap on one of the selected node's
+        // empty slots creates a node there, and any other tap selects the node under it (if any)
+        let preview = previewNode;
+        if (!preview && lastPointerTypeRef.current !== 'mouse' && nodes.length > 0) {
+            const tappedSlot = selectedSlots.find(slot => Math.hypot(slot.x - x, slot.y - y) < 30);
+            if (!tappedSlot) {
+                const tappedNode = findCloseNode(x, y, 0, 40);
+                setSelectedNodeId(tappedNode?.id ?? null);
+                setShowRotationFor(tappedNode?.id ?? null);
+                return;
+            }
+            preview = tappedSlot;
+        }
+
+        if (preview) {
+            // A typed key must fit between the keys around the slot
+            if (preview.typedValue !== undefined) {
+                const typed = parseInt(preview.typedValue, 10);
+                const violation = isNaN(typed)
+                    ? { message: 'Type a whole number' }
+                    : BSTUtils.findRangeViolation(
+                        BSTUtils.getSlotRange(nodes, preview.parentId, preview.isLeft, preview.isChild),
+                        typed
+                    );
+                if (violation) {
+                    setOperationMessage(`Cannot create ${preview.typedValue} here: ${violation.message}`);
+                    return;
+                }
+            }
+
+            beginHistoryEntry(`Create ${preview.value}`);
 
-        if (previewNode) {
             // Add preview node to tree
             const newNode: TreeNode = {
                 id: TreeUtils.generateId(),
-                value: previewNode.value,
-                x: previewNode.x,
-                y: previewNode.y
+                value: preview.value,
+                x: preview.x,
+                y: preview.y,
+                color: treeMode === 'red-black' ? 'red' : undefined
             };
 
             // Find parent node
-            const parentNodeResult = TreeUtils.findNodeById(nodes, previewNode.parentId);
+            const parentNodeResult = TreeUtils.findNodeById(nodes, preview.parentId);
 
             if (parentNodeResult) {
                 const parentNode = parentNodeResult.node;
@@ -294,9 +482,9 @@ const TreeVisualizer: React.FC = () => {
                     const updatedParent = parentResult.node;
 
                     // Update parent-child relationships
-                    if (previewNode.isChild) {
+                    if (preview.isChild) {
                         // Adding as a child
-                        if (previewNode.isLeft) {
+                        if (preview.isLeft) {
                             updatedParent.left = newNode;
                         } else {
                             updatedParent.right = newNode;
@@ -332,7 +520,7 @@ const TreeVisualizer: React.FC = () => {
                         }
 
                         // Set new node's child to the existing node
-                        if (previewNode.isLeft) {
+                        if (preview.isLeft) {
                             newNode.right = updatedParent;
                         } else {
                             newNode.left = updatedParent;
@@ -341,6 +529,24 @@ const TreeVisualizer: React.FC = () => {
 
                     // Add the new node to the array
                     setNodes([...updatedNodes, newNode]);
+                    setLayoutPending(true);
+                    logOperation('create', preview.isChild
+                        ? `Created ${newNode.value} as the ${preview.isLeft ? 'left' : 'right'} child of ${parentNode.value}`
+                        : `Created ${newNode.value} above ${parentNode.value}, which becomes its ${preview.isLeft ? 'right' : 'left'} child`,
+                        [parentNode.id, newNode.id]);
+
+                    // In AVL mode a new node may unbalance its ancestors; a new parent (above the root
+                    // or not) has a subtree on one side only, so the check starts at the parent itself
+                    if (treeMode === 'avl') {
+                        const fromId = preview.isChild ? parentNode.id : newNode.id;
+                        setPendingOperations(prev => [...prev, { type: 'avl-rebalance', fromId }]);
+                    }
+
+                    // In red-black mode a new red child may need fixing up
+                    if (treeMode === 'red-black' && preview.isChild) {
+                        const fixup = RedBlackUtils.planInsertFixup([...updatedNodes, newNode], newNode.id);
+                        setPendingOperations(prev => [...prev, ...fixup]);
+                    }
                 } else {
                     // If we couldn't find the parent in the updated nodes, just add the new node
                     setNodes(prevNodes => [...prevNodes, newNode]);
@@ -353,26 +559,38 @@ const TreeVisualizer: React.FC = () => {
             // Get random value for root node
             let rootValue = Math.floor(Math.random() * 50) + 5;
 
+            beginHistoryEntry(`Create ${rootValue}`);
+
             // Create the first root node
             const rootNode: TreeNode = {
                 id: TreeUtils.generateId(),
                 value: rootValue,
                 x,
-                y
+                y,
+                color: treeMode === 'red-black' ? 'red' : undefined
             };
 
             setNodes([rootNode]);
+            setLayoutPending(true);
+            logOperation('create', `Created ${rootValue} as the root`, [rootNode.id]);
+
+            if (treeMode === 'red-black') {
+                setPendingOperations(prev => [...prev, ...RedBlackUtils.planInsertFixup([rootNode], rootNode.id)]);
+            }
         }
 
         // Clear preview
         setPreviewNode(null);
         setPreviewLink(null);
-    }, [nodes, previewNode]);
+    }, [nodes, previewNode, selectedSlots, treeMode, beginHistoryEntry, logOperation, findCloseNode, toTreePoint]);
 
     // Handlers for dragging nodes
-    const handleDragStart = useCallback((_event: any, _node: TreeNode) => {
-        // Just need to track initial position
-    }, []);
+    const handleDragStart = useCallback((_event: any, node: TreeNode) => {
+        // Record the positions before the drag so it can be undone
+        beginHistoryEntry(`Move ${node.value}`);
+        dragStartRef.current = { x: node.x, y: node.y };
+        setIsDragging(true);
+    }, [beginHistoryEntry]);
 
     const handleDrag = useCallback((event: any, draggedNode: TreeNode) => {
         setNodes(prevNodes => {
@@ -456,304 +674,1437 @@ const TreeVisualizer: React.FC = () => {
         });
     }, []);
 
-    const handleDragEnd = useCallback((_event: any, _node: TreeNode) => {
-        // No special handling needed
+    // A press that didn't move the node isn't logged
+    const handleDragEnd = useCallback((_event: any, node: TreeNode) => {
+        setIsDragging(false);
+
+        const start = dragStartRef.current;
+        dragStartRef.current = null;
+        if (!start || Math.hypot(node.x - start.x, node.y - start.y) < 1) return;
+
+        const size = StatsUtils.calculateNodeStats(nodes).get(node.id)?.size ?? 1;
+        logOperation('move', size > 1 ? `Dragged ${node.value} and its subtree (${size} nodes) to a new position` : `Dragged ${node.value} to a new position`, [node.id]);
+    }, [nodes, logOperation]);
+
+    // Play a timeline, applying its change to the tree once it ends
+    // Everything waiting on isAnimating (queued rotations, layout, history) waits for it
+    const playTimeline = useCallback((timeline: Timeline, finish: (treeNodes: TreeNode[]) => TreeNode[] = treeNodes => treeNodes) => {
+        setIsAnimating(true);
+        setPlayback({ timeline, finish });
+        setPlaybackTime(0);
+        setIsPlaybackPaused(false);
     }, []);
 
-    // Function to stop any running simulation
-    const stopSimulation = useCallback(() => {
-        if (simulationRef.current) {
-            simulationRef.current.stop();
-            simulationRef.current = null;
+    // Play any steps still waiting from the last sequence straight away, before another operation starts
+    // An insert's link animation ends before its last step, which would otherwise land in the middle of
+    // the next operation and overwrite its highlighting
+    const flushSteps = useCallback(() => {
+        if (stepTimerRef.current !== null) {
+            window.clearTimeout(stepTimerRef.current);
+            stepTimerRef.current = null;
         }
+        const steps = remainingStepsRef.current;
+        remainingStepsRef.current = [];
+        steps.forEach(step => step());
     }, []);
 
-    // Update node positions from simulation nodes
-    const updateNodePositionsFromSimulation = useCallback((nodes: TreeNode[], simNodes: SimulationNode[]) => {
-        // For each simulation node, find and update the corresponding tree node
-        simNodes.forEach(simNode => {
-            const nodeResult = TreeUtils.findNodeById(nodes, simNode.id);
-            if (nodeResult) {
-                nodeResult.node.x = simNode.x || 0;
-                nodeResult.node.y = simNode.y || 0;
+    const finishPlayback = useCallback(() => {
+        if (!playback) return;
+
+        const { finish } = playback;
+        setNodes(prevNodes => finish(prevNodes));
+        setPlayback(null);
+        setIsAnimating(false);
+    }, [playback]);
+
+    // Reflow the tree into the automatic layout after a structural change
+    // Waits for any running animation so the reflow plays after it
+    useEffect(() => {
+        if (!autoLayout || !layoutPending || isAnimating) return;
+        setLayoutPending(false);
+
+        const targetPositions = LayoutUtils.calculateTreeLayout(nodes, treeLayoutOptions);
+        if (LayoutUtils.isAtLayout(nodes, targetPositions)) return;
+
+        playTimeline(
+            AnimationUtils.createMoveTimeline(nodes, targetPositions),
+            prevNodes => LayoutUtils.applyPositions(prevNodes, targetPositions)
+        );
+    }, [autoLayout, layoutPending, isAnimating, nodes, playTimeline]);
+
+    // Common function to perform rotation (either left or right)
+    // The rotation is played back phase by phase; the tree structure changes when playback finishes
+    const performRotation = useCallback((nodeId: string, direction: RotationDirection) => {
+        // Prevent rotation during animation
+        if (isAnimating) return;
+
+        const node = TreeUtils.findNodeById(nodes, nodeId)?.node;
+        const childId = node?.[direction === 'left' ? 'right' : 'left']?.id;
+        const childNode = childId ? TreeUtils.findNodeById(nodes, childId)?.node : undefined;
+        if (!node || !childNode) {
+            console.log(`couldn't find the node and child for a ${direction} rotation`);
+            return;
+        }
+
+        // Calculate target positions for all nodes: the automatic layout of the rotated
+        // tree reflows every subtree, otherwise only the node and its child move
+        const targetPositions = autoLayout
+            ? LayoutUtils.calculateTreeLayout(TreeUtils.rotateNodes(nodes, nodeId, direction), treeLayoutOptions)
+            : AnimationUtils.calculateRotationTargetPositions(node, childNode, direction);
+
+        const timeline = PlaybackUtils.createRotationTimeline(nodes, nodeId, direction, targetPositions, phaseDuration);
+        if (!timeline) return;
+        flushSteps();
+        logOperation('rotate', NarrationUtils.describeRotation(nodes, nodeId, direction) ?? `Rotated ${direction} at ${node.value}`, [nodeId, childNode.id]);
+        setCodeRotation({ nodeId, direction });
+        setCodeTrace(CodeUtils.traceRotation(nodes, nodeId, direction, 'return'));
+
+        playTimeline(
+            timeline,
+            prevNodes => LayoutUtils.applyPositions(TreeUtils.rotateNodes(prevNodes, nodeId, direction), targetPositions)
+        );
+    }, [nodes, isAnimating, autoLayout, phaseDuration, playTimeline, flushSteps, logOperation]);
+
+    // Advance the playback clock while playing
+    // With "pause after each phase" on, playback stops at every marker
+    useEffect(() => {
+        if (!playback || isPlaybackPaused) return;
+
+        const timerId = window.setTimeout(() => {
+            const { timeline } = playback;
+            const nextTime = playbackTime + 16 * playbackSpeed;
+            const boundary = TimelineUtils.getNextBoundary(timeline, playbackTime);
+
+            if (pauseEachPhase && boundary < timeline.duration && nextTime >= boundary) {
+                setPlaybackTime(boundary);
+                setIsPlaybackPaused(true);
+            } else if (nextTime >= timeline.duration) {
+                finishPlayback();
+            } else {
+                setPlaybackTime(nextTime);
+            }
+        }, 16); // ~60fps
+        return () => window.clearTimeout(timerId);
+    }, [playback, isPlaybackPaused, playbackTime, playbackSpeed, pauseEachPhase, finishPlayback]);
+
+    // Step forward to the next phase boundary, finishing at the end
+    const stepPlaybackForward = useCallback(() => {
+        if (!playback) return;
+        setIsPlaybackPaused(true);
+
+        const boundary = TimelineUtils.getNextBoundary(playback.timeline, playbackTime);
+        if (boundary < playback.timeline.duration) {
+            setPlaybackTime(boundary);
+        } else {
+            finishPlayback();
+        }
+    }, [playback, playbackTime, finishPlayback]);
+
+    // Step back to the start of the current phase, or to the start of the previous one
+    const stepPlaybackBack = useCallback(() => {
+        if (!playback) return;
+        setIsPlaybackPaused(true);
+        setPlaybackTime(TimelineUtils.getPreviousBoundary(playback.timeline, playbackTime));
+    }, [playback, playbackTime]);
+
+    // The frame being shown, when a timeline is playing
+    const playbackFrame = useMemo(() => {
+        return playback ? TimelineUtils.seek(nodes, playback.timeline, playbackTime) : null;
+    }, [nodes, playback, playbackTime]);
+
+    // C line to highlight: a playing rotation follows its phases, other operations set it step by step
+    const shownCodeTrace = useMemo(() => {
+        const phase = playback && playbackFrame ? playback.timeline.markers[playbackFrame.markerIndex]?.name : undefined;
+        if (codeRotation && phase) {
+            return CodeUtils.traceRotation(nodes, codeRotation.nodeId, codeRotation.direction, phase as RotationPhaseName) ?? codeTrace;
+        }
+        return codeTrace;
+    }, [nodes, playback, playbackFrame, codeRotation, codeTrace]);
+
+    // "t = 30", "t->left = NULL" and so on for the code panel
+    const codeVariables = useMemo(() => {
+        if (!shownCodeTrace) return [];
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        return shownCodeTrace.variables.map(variable => CodeUtils.formatVariable(variable, nodeMap));
+    }, [shownCodeTrace, nodes]);
+
+    // Rotation helper using the common performRotation function
+    // Manual rotations are recorded so undo can play the inverse rotation
+    const rotateAndRecord = useCallback((nodeId: string, direction: RotationDirection) => {
+        const node = TreeUtils.findNodeById(nodes, nodeId)?.node;
+        const childId = node?.[direction === 'left' ? 'right' : 'left']?.id;
+        // Queued steps (a build, rebalancing or a fix-up) leave gaps with nothing animating
+        if (!node || !childId || isAnimating || pendingOperations.length > 0 || buildQueue) return;
+
+        beginHistoryEntry(`Rotate ${direction} at ${node.value}`, [{ nodeId, direction, childId }]);
+        setOperationMessage(NarrationUtils.describeRotation(nodes, nodeId, direction) ?? '');
+        performRotation(nodeId, direction);
+    }, [nodes, isAnimating, pendingOperations, buildQueue, beginHistoryEntry, performRotation]);
+
+    const rotateLeft = useCallback((nodeId: string) => {
+        rotateAndRecord(nodeId, 'left');
+    }, [rotateAndRecord]);
+
+    const rotateRight = useCallback((nodeId: string) => {
+        rotateAndRecord(nodeId, 'right');
+    }, [rotateAndRecord]);
+
+    // Run an LR or RL double rotation as one operation: rotate at y, hold, then rotate at z,
+    // with x, y and z labelled on the nodes throughout
+    const doubleRotate = useCallback((nodeId: string, doubleCase: DoubleRotationCase) => {
+        if (isAnimating || pendingOperations.length > 0 || buildQueue) return;
+
+        const plan = TreeUtils.planDoubleRotation(nodes, nodeId, doubleCase);
+        if (!plan) return;
+
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const [x, y, z] = [plan.xId, plan.yId, plan.zId].map(id => nodeMap.get(id)!.value);
+        const [first, second] = plan.rotations;
+        const ySide = doubleCase === 'LR' ? 'left' : 'right';
+        const xSide = doubleCase === 'LR' ? 'right' : 'left';
+
+        // x rises in both rotations, so it is the child each one is undone at
+        beginHistoryEntry(`${doubleCase} rotation at ${z}`, plan.rotations.map(rotation => ({ ...rotation, childId: plan.xId })));
+        setShowRotationFor(null);
+        setRotationRoles(plan);
+        setPendingOperations([
+            {
+                type: 'rotate',
+                ...first,
+                message: `${doubleCase} double rotation: z = ${z}, y = ${y} (its ${ySide} child), x = ${x} (y's ${xSide} child). ` +
+                    `First rotate ${first.direction} at y (${y})`
+            },
+            {
+                type: 'pause',
+                message: `x (${x}) is now z's ${ySide} child, with y (${y}) below it on the same side: next rotate ${second.direction} at z (${z})`
+            },
+            {
+                type: 'rotate',
+                ...second,
+                message: `Rotate ${second.direction} at z (${z}): x (${x}) rises to the top, ` +
+                    `with ${doubleCase === 'LR' ? `y (${y}) on its left and z (${z})` : `z (${z}) on its left and y (${y})`} on its right`
+            }
+        ]);
+    }, [nodes, isAnimating, pendingOperations, buildQueue, beginHistoryEntry]);
+
+    const rotateLeftRight = useCallback((nodeId: string) => {
+        doubleRotate(nodeId, 'LR');
+    }, [doubleRotate]);
+
+    const rotateRightLeft = useCallback((nodeId: string) => {
+        doubleRotate(nodeId, 'RL');
+    }, [doubleRotate]);
+
+    // Run a sequence of animation steps, pausing between each one
+    const playSteps = useCallback((steps: Array<() => void>) => {
+        flushSteps();
+        remainingStepsRef.current = [...steps];
+
+        const runNext = () => {
+            const step = remainingStepsRef.current.shift();
+            step?.();
+            stepTimerRef.current = remainingStepsRef.current.length > 0 ? window.setTimeout(runNext, stepDelay) : null;
+        };
+        runNext();
+    }, [stepDelay, flushSteps]);
+
+    // Create one step per node visited on a search path, highlighting each comparison
+    // and the line of TreeSearch or TreeInsert it runs
+    const createSearchSteps = useCallback((path: SearchPath, value: number, nodeMap: Map<string, TreeNode>, fn: 'search' | 'insert') => {
+        return path.visitedIds.map((visitedId, index) => () => {
+            const visitedNode = nodeMap.get(visitedId);
+            setSearchPath(path.visitedIds.slice(0, index + 1));
+            if (visitedNode) {
+                setOperationMessage(BSTUtils.describeComparison(value, visitedNode));
+                setCodeTrace(CodeUtils.traceDescent(fn, value, visitedNode));
             }
         });
     }, []);
 
-    // Update animated links during rotation
-    const updateAnimatedLinks = useCallback(() => {
-        if (animatedLinks.length > 0) {
-            setAnimatedLinks(prevLinks => AnimationUtils.updateAnimatedLinks(prevLinks));
-        }
-    }, [animatedLinks]);
+    // Queue the zig, zig-zig and zig-zag rotations that splay a node to the root
+    const queueSplay = useCallback((treeNodes: TreeNode[], nodeId: string) => {
+        const rotations = SplayUtils.planSplay(treeNodes, nodeId);
+        if (rotations.length === 0) return;
 
-    // Handle animation tick to update animated links
-    useEffect(() => {
-        if (isAnimating && nodeAnimationComplete && animatedLinks.length > 0) {
-            // Check if all animations are complete
-            const allComplete = animatedLinks.every(link => link.progress >= 1);
+        setFlaggedNodeId(nodeId);
+        setPendingOperations(prev => [...prev, ...rotations]);
+    }, []);
 
-            if (allComplete) {
-                // Animation is complete, clear the animated links
-                setAnimatedLinks([]);
-                setIsAnimating(false);
-                setNodeAnimationComplete(false);
+    // Search for a value; in splay mode the last node reached is splayed to the root
+    const handleSearchByValue = useCallback(() => {
+        const value = parseInt(insertValue, 10);
+        if (isNaN(value) || isAnimating) return;
 
-                // Clear any existing animation timer
-                if (animationTimerRef.current !== null) {
-                    window.clearTimeout(animationTimerRef.current);
-                    animationTimerRef.current = null;
-                }
+        const path = BSTUtils.findSearchPath(nodes, value);
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+
+        setIsAnimating(true);
+        setShowRotationFor(null);
+
+        const steps = createSearchSteps(path, value, nodeMap, 'search');
+        steps.push(() => {
+            if (!path.found) setCodeTrace(CodeUtils.traceDescent('search', value, null));
+            const lastId = path.visitedIds[path.visitedIds.length - 1];
+            if (treeMode === 'splay' && lastId && SplayUtils.getSplayCase(nodes, lastId)) {
+                setOperationMessage(path.found
+                    ? `Found ${value}: splay it to the root`
+                    : `${value} is not in the tree: splay the last node reached, ${nodeMap.get(lastId)?.value}, to the root`);
+                beginHistoryEntry(`Splay ${nodeMap.get(lastId)?.value}`);
+                queueSplay(nodes, lastId);
             } else {
-                // Continue the animation
-                const timerId = window.setTimeout(updateAnimatedLinks, 16); // ~60fps
-                animationTimerRef.current = timerId;
-
-                // Clean up on unmount
-                return () => {
-                    if (animationTimerRef.current !== null) {
-                        window.clearTimeout(animationTimerRef.current);
-                    }
-                };
+                setOperationMessage(path.found ? `Found ${value}` : `${value} is not in the tree`);
             }
-        }
-    }, [isAnimating, nodeAnimationComplete, animatedLinks, updateAnimatedLinks]);
+        });
+        steps.push(() => {
+            setSearchPath([]);
+            setIsAnimating(false);
+        });
 
-    // Common function to perform rotation (either left or right)
-    const performRotation = useCallback((nodeId: string, direction: RotationDirection) => {
-        // Prevent rotation during animation
+        playSteps(steps);
+    }, [insertValue, isAnimating, nodes, treeMode, beginHistoryEntry, createSearchSteps, queueSplay, playSteps]);
+
+    // Insert a value by walking the BST from the root, highlighting each comparison
+    // The mode's balancing follows, unless another mode is given (quiz solutions insert into AVL trees)
+    const insertKey = useCallback((value: number, mode: TreeMode = treeMode) => {
         if (isAnimating) return;
 
+        const path = BSTUtils.findSearchPath(nodes, value);
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+
         setIsAnimating(true);
-        setNodeAnimationComplete(false); // Ensure node animation starts first
-        stopSimulation();
+        setShowRotationFor(null);
 
-        // Create a working copy of nodes
-        const workingNodes = [...nodes];
+        if (!path.found) {
+            beginHistoryEntry(`Insert ${value}`);
+        }
 
-        // Find the node to rotate
-        const nodeResult = TreeUtils.findAndCopyNode(workingNodes, nodeId);
-        if (!nodeResult) {
-            console.log('couldn\'t find node for rotation');
-            setIsAnimating(false);
+        // Visit each node on the path
+        const steps = createSearchSteps(path, value, nodeMap, 'insert');
+        let linkTrace: CodeTrace | null = null; // The parent's t->left or t->right taking the new node
+
+        // Attach the new node in the empty slot (or report the duplicate)
+        steps.push(() => {
+            if (path.found) {
+                setOperationMessage(`${value} is already in the tree, nothing to insert`);
+                return;
+            }
+
+            const newNode: TreeNode = {
+                id: TreeUtils.generateId(),
+                value,
+                x: layoutWidth / 2,
+                y: 60,
+                color: mode === 'red-black' ? 'red' : undefined
+            };
+            const parentId = path.parentId;
+
+            const parentNode = parentId ? nodeMap.get(parentId) : undefined;
+            setCodeTrace(CodeUtils.traceDescent('insert', value, null));
+
+            if (parentId && parentNode) {
+                // Use the same spacing as the click-to-create preview, and grow the link out of the parent
+                newNode.x = parentNode.x + (path.isLeft ? -80 : 80);
+                newNode.y = parentNode.y + 80;
+                setNodes(prevNodes => TreeUtils.attachChild(prevNodes, parentId, newNode, path.isLeft));
+                playTimeline(AnimationUtils.createInsertTimeline(parentId, newNode.id));
+                setOperationMessage(`Inserted ${value} as the ${path.isLeft ? 'left' : 'right'} child of ${parentNode.value}`);
+                logOperation('insert', `Inserted ${value} as the ${path.isLeft ? 'left' : 'right'} child of ${parentNode.value}`, [parentId, newNode.id]);
+            } else {
+                setNodes(prevNodes => [...prevNodes, newNode]);
+                setOperationMessage(`Inserted ${value} as the root`);
+                logOperation('insert', `Inserted ${value} as the root`, [newNode.id]);
+            }
+
+            setSearchPath([...path.visitedIds, newNode.id]);
+            setInsertValue('');
+            setLayoutPending(true);
+
+            // Self-balancing modes follow up on the new node
+            const insertedNodes = parentId
+                ? TreeUtils.attachChild(nodes, parentId, newNode, path.isLeft)
+                : [...nodes, newNode];
+            const insertedParent = parentId ? TreeUtils.buildNodeMap(insertedNodes).get(parentId) : undefined;
+            linkTrace = insertedParent ? CodeUtils.traceDescent('insert', value, insertedParent) : null;
+
+            if (mode === 'avl' && parentId) {
+                setPendingOperations(prev => [...prev, { type: 'avl-rebalance', fromId: parentId }]);
+            } else if (mode === 'red-black') {
+                const fixup = RedBlackUtils.planInsertFixup(insertedNodes, newNode.id);
+                setPendingOperations(prev => [...prev, ...fixup]);
+            } else if (mode === 'splay') {
+                queueSplay(insertedNodes, newNode.id);
+            }
+        });
+
+        // Clear highlighting once the result has been shown for a moment
+        // An attached child's link timeline clears isAnimating itself when it ends
+        steps.push(() => {
+            setSearchPath([]);
+            if (linkTrace) setCodeTrace(linkTrace);
+            if (path.found || !path.parentId) setIsAnimating(false);
+        });
+
+        playSteps(steps);
+    }, [isAnimating, nodes, treeMode, beginHistoryEntry, logOperation, createSearchSteps, queueSplay, playSteps, playTimeline]);
+
+    const handleInsertByValue = useCallback(() => {
+        const value = parseInt(insertValue, 10);
+        if (!isNaN(value)) insertKey(value);
+    }, [insertValue, insertKey]);
+
+    // Build a new tree from a typed insertion sequence or level-order array
+    // Animated builds insert each key in turn; instant builds apply every insert at once
+    const handleBuild = useCallback(() => {
+        if (isAnimating || pendingOperations.length > 0 || buildQueue) return;
+
+        const input = SequenceUtils.parseBuildInput(buildInput);
+        if (!input.ok) {
+            setOperationMessage(`Could not build: ${input.error}`);
             return;
         }
-        const node = nodeResult.node;
 
-        // Determine which child to use based on rotation direction
-        const childProperty = direction === 'left' ? 'right' : 'left';
+        const label = `Build from ${input.format === 'level-order' ? 'level-order array' : 'insertion sequence'}`;
+        beginHistoryEntry(label);
+        setShowRotationFor(null);
+        setSearchPath([]);
+        setCodeTrace(null);
+
+        const source = input.format === 'level-order' ? 'level-order array' : 'insertion sequence';
+        // Inserting the keys in level order gives the array's shape in a plain BST, but other modes may move them
+        const askedShape = input.format === 'level-order' && treeMode !== 'bst' ? SequenceUtils.buildTree(input.keys, 'bst') : null;
+        if (animateBuild) {
+            buildShapeRef.current = askedShape;
+            setNodes([]);
+            setBuildQueue(input.keys);
+            logOperation('build', `Started a new tree from the ${source} ${input.keys.join(', ')}`);
+            return;
+        }
 
-        // Find the child node
-        const childResult = TreeUtils.findAndCopyChildNode(workingNodes, node, childProperty);
-        if (!childResult) {
-            console.log(`couldn't find ${childProperty} child for rotation`);
-            setIsAnimating(false);
+        const builtNodes = SequenceUtils.buildTree(input.keys, treeMode);
+        const targetPositions = LayoutUtils.calculateTreeLayout(builtNodes, treeLayoutOptions);
+        setNodes(LayoutUtils.applyPositions(builtNodes, targetPositions));
+        logOperation('build', `Built a tree of ${builtNodes.length} node${builtNodes.length === 1 ? '' : 's'} from the ${source} ${input.keys.join(', ')}`,
+            builtNodes.map(node => node.id));
+        setOperationMessage(`Built a tree of ${builtNodes.length} node${builtNodes.length === 1 ? '' : 's'} from ${input.keys.length} key${input.keys.length === 1 ? '' : 's'}` +
+            describeReshape(builtNodes, askedShape, treeMode));
+    }, [isAnimating, pendingOperations, buildQueue, buildInput, animateBuild, treeMode, beginHistoryEntry, logOperation]);
+
+    // Feed an animated build one key at a time, waiting for each insert (and any rebalancing) to finish
+    useEffect(() => {
+        if (!buildQueue || isAnimating || pendingOperations.length > 0 || (autoLayout && layoutPending)) return;
+
+        if (buildQueue.length > 0) {
+            const [key, ...remaining] = buildQueue;
+            setBuildQueue(remaining);
+            insertKey(key);
             return;
         }
-        const childNode = childResult.node;
 
-        // Find the grandchild if it exists (the child's opposite property)
-        const grandchildProperty = direction === 'left' ? 'left' : 'right';
-        let grandchild: TreeNode | undefined;
+        // Finished: lay the tree out even when manual positions are locked
+        setBuildQueue(null);
+        if (!autoLayout) {
+            setNodes(prevNodes => LayoutUtils.applyPositions(prevNodes, LayoutUtils.calculateTreeLayout(prevNodes, treeLayoutOptions)));
+        }
+        setOperationMessage(`Built a tree of ${nodes.length} node${nodes.length === 1 ? '' : 's'}` + describeReshape(nodes, buildShapeRef.current, treeMode));
+        buildShapeRef.current = null;
+    }, [buildQueue, isAnimating, pendingOperations, autoLayout, layoutPending, nodes, treeMode, insertKey]);
 
-        if (childNode[grandchildProperty]) {
-            const grandchildResult = TreeUtils.findNodeById(workingNodes, childNode[grandchildProperty]?.id || '');
-            if (grandchildResult) {
-                grandchild = grandchildResult.node;
-            }
+    // Delete any node: leaves are removed, one-child nodes are spliced out, and
+    // two-child nodes are replaced by their in-order successor or predecessor
+    const deleteNode = useCallback((nodeId: string) => {
+        if (isAnimating) return;
+
+        const plan = BSTUtils.planDeletion(nodes, nodeId, replacementStrategy);
+        if (!plan) return;
+
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const target = nodeMap.get(plan.targetId);
+        const removed = nodeMap.get(plan.removedId);
+        if (!target || !removed) return;
+
+        const parent = plan.parentId ? nodeMap.get(plan.parentId) : undefined;
+        const child = plan.childId ? nodeMap.get(plan.childId) : undefined;
+        const replacementName = replacementStrategy === 'successor' ? 'in-order successor' : 'in-order predecessor';
+
+        beginHistoryEntry(`Delete ${target.value}`);
+        setIsAnimating(true);
+        setShowRotationFor(null);
+
+        const steps: Array<() => void> = [];
+
+        if (plan.replacementPath.length > 0) {
+            // Two children: walk to the replacement, then copy its value up
+            steps.push(() => {
+                setSearchPath([target.id]);
+                setOperationMessage(`Delete ${target.value}: it has two children, so find its ${replacementName}`);
+            });
+
+            plan.replacementPath.forEach((pathId, index) => {
+                steps.push(() => {
+                    const pathNode = nodeMap.get(pathId);
+                    const direction = (index === 0) === (replacementStrategy === 'successor') ? 'right' : 'left';
+                    setSearchPath([target.id, ...plan.replacementPath.slice(0, index + 1)]);
+                    setOperationMessage(`Go ${direction} to ${pathNode?.value}`);
+                });
+            });
+
+            steps.push(() => {
+                setOperationMessage(replacementStrategy === 'successor'
+                    ? `${removed.value} is the ${replacementName} (smallest key in the right subtree)`
+                    : `${removed.value} is the ${replacementName} (largest key in the left subtree)`);
+            });
+
+            steps.push(() => {
+                setSearchPath([target.id, removed.id]);
+                setNodes(prevNodes => prevNodes.map(node =>
+                    node.id === target.id ? { ...node, value: removed.value } : node
+                ));
+                setOperationMessage(`Copy ${removed.value} into the node that held ${target.value}`);
+            });
+        } else {
+            steps.push(() => {
+                setSearchPath([target.id]);
+                setOperationMessage(child
+                    ? `Delete ${target.value}: it has one child, so splice ${child.value} up into its place`
+                    : `Delete ${target.value}: it is a leaf, so just remove it`);
+            });
         }
 
-        // Prepare animated links
-        const newAnimatedLinks = AnimationUtils.createRotationAnimatedLinks(
-            node,
-            childNode,
-            grandchild,
-            direction
-        );
+        // Remove the node and relink its only child (if any) to its parent
+        steps.push(() => {
+            setSearchPath([]);
+            setLayoutPending(true);
 
-        // Set the animated links
-        setAnimatedLinks(newAnimatedLinks);
+            // In AVL mode, check the ancestors of the removed node
+            const removedParentId = plan.parentId;
+            if (treeMode === 'avl' && removedParentId) {
+                setPendingOperations(prev => [...prev, { type: 'avl-rebalance', fromId: removedParentId }]);
+            }
+
+            if (plan.replacementPath.length > 0) {
+                setOperationMessage(child
+                    ? `Remove the old ${removed.value} node; its child ${child.value} moves up to ${parent?.value}`
+                    : `Remove the old ${removed.value} node, which is now a leaf`);
+                logOperation('delete', `Deleted ${target.value}: it had two children, so its ${replacementName} ${removed.value} took its place`,
+                    [target.id]);
+            } else {
+                setOperationMessage(`Deleted ${target.value}`);
+                logOperation('delete', child
+                    ? `Deleted ${target.value}: its only child ${child.value} took its place ${parent ? `under ${parent.value}` : 'as the root'}`
+                    : `Deleted the leaf ${target.value}${parent ? ` from under ${parent.value}` : ''}`,
+                    [parent?.id, child?.id].filter((id): id is string => id !== undefined));
+            }
+
+            if (treeMode === 'red-black') {
+                setOperationMessage(message => `${message}. Red-black deletion fix-up is not animated: check the invariants below`);
+            }
+
+            // In splay mode, the parent of the removed node is splayed to the root
+            if (treeMode === 'splay' && removedParentId) {
+                queueSplay(BSTUtils.applyDeletion(nodes, plan), removedParentId);
+            }
 
-        // Find if the node has a parent
-        const parentInfo = TreeUtils.findParentNode(workingNodes, node.id);
+            // Retract the node's links, removing it once they are gone (which also clears isAnimating)
+            const deletion = AnimationUtils.createDeletionTimeline(parent, removed, child);
+            if (deletion.linkTracks.length > 0) {
+                playTimeline(deletion, prevNodes => BSTUtils.applyDeletion(prevNodes, plan));
+            } else {
+                setNodes(prevNodes => BSTUtils.applyDeletion(prevNodes, plan));
+                setIsAnimating(false);
+            }
+        });
 
-        // Calculate target positions for all nodes
-        const targetPositions = AnimationUtils.calculateRotationTargetPositions(node, childNode, direction);
+        // Show the branch of TreeDelete each step runs
+        const codeTraces = CodeUtils.traceDeletion(nodes, plan, replacementStrategy);
+        playSteps(steps.map((step, index) => () => {
+            step();
+            if (codeTraces[index]) setCodeTrace(codeTraces[index]);
+        }));
+    }, [nodes, isAnimating, replacementStrategy, treeMode, beginHistoryEntry, logOperation, queueSplay, playSteps, playTimeline]);
+
+    // Walk up from a node checking balance factors, then queue the rotations for
+    // the first unbalanced node followed by a check of the ancestors above it
+    const runAVLRebalance = useCallback((fromId: string) => {
+        const rebalance = AVLUtils.planRebalance(nodes, fromId);
+        const balanceFactors = AVLUtils.calculateBalanceFactors(nodes);
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const formatBalance = (nodeId: string) => {
+            const balanceFactor = balanceFactors.get(nodeId) ?? 0;
+            return balanceFactor > 0 ? `+${balanceFactor}` : `${balanceFactor}`;
+        };
 
-        // Convert tree nodes to simulation nodes
-        const simNodes = AnimationUtils.createSimulationNodes(workingNodes, targetPositions);
+        setIsAnimating(true);
+        setFlaggedNodeId(null);
+
+        const steps: Array<() => void> = rebalance.walkedIds.map((nodeId, index) => () => {
+            setSearchPath(rebalance.walkedIds.slice(0, index + 1));
+            setOperationMessage(`Check ${nodeMap.get(nodeId)?.value}: balance factor ${formatBalance(nodeId)}`);
+        });
+
+        const unbalancedId = rebalance.unbalancedId;
+        if (!unbalancedId || !rebalance.imbalanceCase) {
+            steps.push(() => {
+                setSearchPath([]);
+                setOperationMessage('Reached the root: every balance factor is -1, 0 or +1, so the tree is AVL-balanced');
+                setIsAnimating(false);
+            });
+            playSteps(steps);
+            return;
+        }
+
+        const imbalanceCase = rebalance.imbalanceCase;
+        steps.push(() => {
+            setSearchPath([]);
+            setFlaggedNodeId(unbalancedId);
+            setOperationMessage(
+                `${nodeMap.get(unbalancedId)?.value} is unbalanced (balance factor ${formatBalance(unbalancedId)}): ` +
+                AVLUtils.describeCase(imbalanceCase)
+            );
+        });
+
+        steps.push(() => {
+            const parentId = TreeUtils.findParentNode(nodes, unbalancedId)?.parent.id;
+            const rotations: PendingOperation[] = rebalance.rotations.map(rotation => ({
+                type: 'rotate',
+                nodeId: rotation.nodeId,
+                direction: rotation.direction,
+                message: `${imbalanceCase} case: rotate ${rotation.direction} at ${nodeMap.get(rotation.nodeId)?.value}`
+            }));
+            const followUp: PendingOperation[] = parentId ? [{ type: 'avl-rebalance', fromId: parentId }] : [];
+
+            setPendingOperations(prev => [...rotations, ...followUp, ...prev]);
+            setIsAnimating(false);
+        });
 
-        // Setup rotation simulation
-        const simulation = AnimationUtils.setupRotationSimulation(
-            simNodes,
+        playSteps(steps);
+    }, [nodes, playSteps]);
+
+    // Apply a red-black recolouring, pausing so the change can be seen
+    const runRecolor = useCallback((operation: Extract<RedBlackFixupStep, { type: 'recolor' }>) => {
+        setIsAnimating(true);
+        playSteps([
             () => {
-                // This is called on each tick (already handled by updateNodesFromSimulation)
+                setNodes(prevNodes => RedBlackUtils.applyColorChanges(prevNodes, operation.changes));
+                setFlaggedNodeId(operation.changes[0].nodeId);
+                setOperationMessage(operation.message);
+                logOperation('recolor', operation.message, operation.changes.map(change => change.nodeId));
             },
             () => {
-                // This is called when the simulation completes
-                simulationRef.current = null;
-
-                // Mark node animation as complete - this will trigger link animations
-                setNodeAnimationComplete(true);
-
-                // Update the actual tree structure
-                setNodes(prevNodes => {
-                    const newNodes = [...prevNodes];
-
-                    // Find the node to rotate again (state might have changed)
-                    const finalNodeResult = TreeUtils.findAndCopyNode(newNodes, nodeId);
-                    if (!finalNodeResult) {
-                        console.log('couldn\'t find node index after rotation');
-                        setIsAnimating(false);
-                        return prevNodes;
-                    }
-                    const finalNode = finalNodeResult.node;
-
-                    // Find the child again
-                    const finalChildResult = TreeUtils.findAndCopyChildNode(newNodes, finalNode, childProperty);
-                    if (!finalChildResult) {
-                        console.log(`couldn't find ${childProperty} child after rotation`);
-                        setIsAnimating(false);
-                        return prevNodes;
-                    }
-                    const finalChildNode = finalChildResult.node;
-
-                    // Find parent again
-                    const finalParentInfo = TreeUtils.findParentNode(newNodes, finalNode.id);
-
-                    // Update relationships based on rotation direction
-                    if (direction === 'left') {
-                        // Left rotation: right child becomes parent
-                        if (finalChildNode.left) {
-                            // Find and potentially copy the left child of the right child
-                            const childLeftResult = TreeUtils.findNodeById(newNodes, finalChildNode.left.id);
-                            if (childLeftResult) {
-                                finalNode.right = { ...finalChildNode.left };
-                            }
-                        } else {
-                            finalNode.right = undefined;
-                        }
-                        finalChildNode.left = finalNode;
-                    } else {
-                        // Right rotation: left child becomes parent
-                        if (finalChildNode.right) {
-                            // Find and potentially copy the right child of the left child
-                            const childRightResult = TreeUtils.findNodeById(newNodes, finalChildNode.right.id);
-                            if (childRightResult) {
-                                finalNode.left = { ...finalChildNode.right };
-                            }
-                        } else {
-                            finalNode.left = undefined;
-                        }
-                        finalChildNode.right = finalNode;
-                    }
+                setFlaggedNodeId(null);
+                setIsAnimating(false);
+            }
+        ]);
+    }, [playSteps, logOperation]);
 
-                    // Update parent's reference if exists
-                    if (finalParentInfo) {
-                        const { parent, isLeftChild } = finalParentInfo;
-                        if (isLeftChild) {
-                            parent.left = finalChildNode;
-                        } else {
-                            parent.right = finalChildNode;
-                        }
-                    }
+    // Hold on a message between queued operations
+    const runPause = useCallback((message: string) => {
+        setIsAnimating(true);
+        playSteps([
+            () => setOperationMessage(message),
+            () => setIsAnimating(false)
+        ]);
+    }, [playSteps]);
+
+    // Run queued operations one at a time once nothing else is animating
+    // Any pending layout reflow runs first so each step starts from a tidy tree
+    useEffect(() => {
+        if (isAnimating || (autoLayout && layoutPending)) return;
 
-                    // Update positions to match simulation end state
-                    updateNodePositionsFromSimulation(newNodes, simNodes);
+        if (pendingOperations.length === 0) {
+            if (flaggedNodeId) setFlaggedNodeId(null);
+            if (rotationRoles) setRotationRoles(null);
+            return;
+        }
 
-                    // Don't set isAnimating to false here since link animations may still be in progress
-                    // The isAnimating flag will be set to false when all link animations complete
-                    return newNodes;
-                });
+        const [operation, ...remaining] = pendingOperations;
+        setPendingOperations(remaining);
+
+        if (operation.type === 'rotate') {
+            setOperationMessage(operation.message);
+            performRotation(operation.nodeId, operation.direction);
+        } else if (operation.type === 'recolor') {
+            runRecolor(operation);
+        } else if (operation.type === 'pause') {
+            runPause(operation.message);
+        } else if (operation.type === 'insert') {
+            insertKey(operation.value, operation.mode);
+        } else {
+            runAVLRebalance(operation.fromId);
+        }
+    }, [isAnimating, autoLayout, layoutPending, pendingOperations, flaggedNodeId, rotationRoles, performRotation, runAVLRebalance, runRecolor, runPause, insertKey]);
+
+    // Red-black properties are re-checked after every change
+    const redBlackViolations = useMemo(() => {
+        return treeMode === 'red-black' ? RedBlackUtils.checkInvariants(nodes) : [];
+    }, [nodes, treeMode]);
+
+    // Switch balancing scheme; red-black mode colours existing nodes black and other modes clear colours
+    const changeTreeMode = useCallback((mode: TreeMode) => {
+        if (mode === treeMode) return;
+
+        if (mode === 'red-black') {
+            if (nodes.some(node => !node.color)) {
+                setNodes(prevNodes => RedBlackUtils.colorUncoloredNodes(prevNodes, 'black'));
+                setOperationMessage('Coloured the existing nodes black; new nodes are inserted red');
             }
-        );
+        } else if (treeMode === 'red-black') {
+            setNodes(prevNodes => RedBlackUtils.clearColors(prevNodes));
+        }
 
-        simulationRef.current = simulation;
-    }, [nodes, isAnimating, stopSimulation, nodeAnimationComplete, updateNodePositionsFromSimulation]);
+        // Snapshots from another mode may not be valid in this one
+        setHistory(HistoryUtils.empty());
+        setCodeTrace(null);
+        setTreeMode(mode);
+    }, [nodes, treeMode]);
 
-    // Rotation helper for node with force simulation - now using common performRotation function
-    const rotateLeft = useCallback((nodeId: string) => {
-        performRotation(nodeId, 'left');
-    }, [performRotation]);
+    // Heights and balance factors shown under each node in AVL mode
+    const avlAnnotations = useMemo(() => {
+        const annotations = new Map<string, { text: string, isUnbalanced: boolean }>();
+        if (treeMode !== 'avl') return annotations;
 
-    const rotateRight = useCallback((nodeId: string) => {
-        performRotation(nodeId, 'right');
-    }, [performRotation]);
+        const heights = AVLUtils.calculateHeights(nodes);
+        nodes.forEach(node => {
+            const balanceFactor = AVLUtils.getBalanceFactor(node, heights);
+            annotations.set(node.id, {
+                text: `h=${heights.get(node.id)} bf=${balanceFactor > 0 ? '+' : ''}${balanceFactor}`,
+                isUnbalanced: Math.abs(balanceFactor) > 1
+            });
+        });
+        return annotations;
+    }, [nodes, treeMode]);
+
+    // Traversal progress: the cursor, keys output so far and nodes already visited
+    const traversalCursorId = traversalSteps[traversalIndex]?.nodeId ?? null;
+    const traversalOutput = useMemo(() => {
+        return traversalSteps.slice(0, traversalIndex + 1).filter(step => step.output !== undefined);
+    }, [traversalSteps, traversalIndex]);
+    const traversalVisitedIds = useMemo(() => new Set(traversalOutput.map(step => step.nodeId)), [traversalOutput]);
+    // Recursion stack listed top first, or queue listed front first
+    const traversalPending = useMemo(() => {
+        const pending = traversalSteps[traversalIndex]?.pending ?? [];
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const ordered = traversalOrder === 'level-order' ? pending : [...pending].reverse();
+        return ordered.map(id => ({ id, value: nodeMap.get(id)?.value }));
+    }, [traversalSteps, traversalIndex, traversalOrder, nodes]);
+    const traversalFinished = traversalSteps.length > 0 && traversalIndex >= traversalSteps.length - 1;
+
+    // Start a traversal from the beginning in the chosen order
+    const startTraversal = useCallback((order: TraversalOrder) => {
+        const steps = TraversalUtils.planTraversal(nodes, order);
+        setTraversalSteps(steps);
+        setTraversalIndex(-1);
+        return steps;
+    }, [nodes]);
+
+    const stepTraversal = useCallback(() => {
+        const steps = traversalSteps.length === 0 || traversalFinished ? startTraversal(traversalOrder) : traversalSteps;
+        const index = steps === traversalSteps ? traversalIndex + 1 : 0;
+        if (index >= steps.length) return;
 
-    // Handle right click to delete leaf nodes
+        setTraversalIndex(index);
+        setOperationMessage(steps[index].message);
+    }, [traversalSteps, traversalFinished, traversalIndex, traversalOrder, startTraversal]);
+
+    const toggleTraversalPlaying = useCallback(() => {
+        if (isTraversalPlaying) {
+            setIsTraversalPlaying(false);
+            return;
+        }
+        if (traversalSteps.length === 0 || traversalFinished) startTraversal(traversalOrder);
+        setIsTraversalPlaying(true);
+    }, [isTraversalPlaying, traversalSteps, traversalFinished, traversalOrder, startTraversal]);
+
+    const resetTraversal = useCallback(() => {
+        setIsTraversalPlaying(false);
+        setTraversalSteps([]);
+        setTraversalIndex(-1);
+    }, []);
+
+    // Advance the traversal while playing
+    useEffect(() => {
+        if (!isTraversalPlaying) return;
+        if (traversalIndex >= traversalSteps.length - 1) {
+            setIsTraversalPlaying(false);
+            return;
+        }
+
+        const timerId = window.setTimeout(() => {
+            setTraversalIndex(traversalIndex + 1);
+            setOperationMessage(traversalSteps[traversalIndex + 1].message);
+        }, stepDelay);
+        return () => window.clearTimeout(timerId);
+    }, [isTraversalPlaying, traversalIndex, traversalSteps, stepDelay]);
+
+    // A traversal planned on an older tree no longer matches once the structure changes
+    const treeStructure = useMemo(() => {
+        return LayoutUtils.getInOrderDepths(nodes).map(({ id, depth }) => `${id}:${depth}`).join(',');
+    }, [nodes]);
+    useEffect(() => {
+        resetTraversal();
+    }, [treeStructure, resetTraversal]);
+
+    // BST ordering is re-checked across the whole tree after every change
+    const orderingCheck = useMemo(() => BSTUtils.checkOrdering(nodes), [nodes]);
+    const violatingNodeIds = useMemo(() => {
+        return new Set(orderingCheck.violations.map(violation => violation.nodeId));
+    }, [orderingCheck]);
+    const violatingLinkIds = useMemo(() => {
+        const linkIds = new Set<string>();
+        orderingCheck.violations.forEach(violation => {
+            const parentInfo = TreeUtils.findParentNode(nodes, violation.nodeId);
+            if (parentInfo) linkIds.add(`${parentInfo.parent.id}-${violation.nodeId}`);
+        });
+        return linkIds;
+    }, [orderingCheck, nodes]);
+
+    // Size and shape of the tree, and the depth and subtree of each node
+    const treeStats = useMemo(() => StatsUtils.calculateTreeStats(nodes), [nodes]);
+    const nodeStats = useMemo(() => StatsUtils.calculateNodeStats(nodes), [nodes]);
+    const hoveredNode = showRotationFor ? TreeUtils.findNodeById(nodes, showRotationFor)?.node : undefined;
+    const hoveredStats = showRotationFor ? nodeStats.get(showRotationFor) : undefined;
+
+    // Double-click a node to edit its key in place
+    const startEditing = useCallback((node: TreeNode) => {
+        if (isAnimating || buildQueue) return;
+        setEditingNodeId(node.id);
+        setEditError(null);
+        setShowRotationFor(null);
+        setPreviewNode(null);
+        setPreviewLink(null);
+    }, [isAnimating, buildQueue]);
+
+    // Editing started from the keyboard hands focus back to the canvas
+    const cancelEditing = useCallback(() => {
+        if (editingNodeId && editingNodeId === focusedNodeId) svgRef.current?.focus();
+        setEditingNodeId(null);
+        setEditError(null);
+    }, [editingNodeId, focusedNodeId]);
+
+    // The new key is checked against every ancestor and both subtrees, not just the parent
+    const commitEdit = useCallback((text: string) => {
+        const node = editingNodeId ? TreeUtils.findNodeById(nodes, editingNodeId)?.node : undefined;
+        if (!node) return;
+
+        const value = Number(text);
+        if (text.trim() === '' || !Number.isInteger(value)) {
+            setEditError('Type a whole number');
+            return;
+        }
+        if (value === node.value) {
+            cancelEditing();
+            return;
+        }
+
+        const range = BSTUtils.getValueRange(nodes, node.id);
+        const violation = BSTUtils.findRangeViolation(range, value);
+        if (violation) {
+            setEditError(`${violation.message}; keys here must be in ${BSTUtils.formatRange(range)}`);
+            return;
+        }
+
+        beginHistoryEntry(`Edit ${node.value} to ${value}`);
+        setNodes(prevNodes => TreeUtils.relinkNodes(prevNodes.map(prevNode => (
+            prevNode.id === node.id ? { ...prevNode, value } : { ...prevNode }
+        ))));
+        setOperationMessage(`Changed ${node.value} to ${value}`);
+        logOperation('edit', `Changed the key ${node.value} to ${value}`, [node.id]);
+        cancelEditing();
+    }, [editingNodeId, nodes, beginHistoryEntry, logOperation, cancelEditing]);
+
+    // Typing while a preview node is showing replaces its default key
+    // Backspace deletes a digit and Escape goes back to the default
+    useEffect(() => {
+        if (!previewNode || editingNodeId) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+            if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+            const typed = previewNode.typedValue ?? '';
+            let nextTyped: string | undefined;
+            if (/^[0-9]$/.test(event.key)) {
+                nextTyped = typed + event.key;
+            } else if (event.key === '-' && typed === '') {
+                nextTyped = '-';
+            } else if (event.key === 'Backspace') {
+                nextTyped = typed.length > 1 ? typed.slice(0, -1) : undefined;
+            } else if (event.key === 'Escape') {
+                nextTyped = undefined;
+            } else {
+                return;
+            }
+            event.preventDefault();
+
+            const parent = TreeUtils.findNodeById(nodes, previewNode.parentId)?.node;
+            const parsed = nextTyped !== undefined ? parseInt(nextTyped, 10) : NaN;
+            const value = !isNaN(parsed) ? parsed
+                : parent ? getDefaultChildNodeValue(parent, previewNode.isLeft, nodes) : previewNode.value;
+            setPreviewNode({ ...previewNode, typedValue: nextTyped, value });
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [previewNode, editingNodeId, nodes, getDefaultChildNodeValue]);
+
+    // Handle right click to delete a node
     const handleContextMenu = useCallback((event: React.MouseEvent, nodeToDelete: TreeNode) => {
         // Prevent the default context menu
         event.preventDefault();
+        deleteNode(nodeToDelete.id);
+    }, [deleteNode]);
+
+    // A long press deletes on touch screens, where there is no right-click
+    const handleLongPress = useCallback((nodeToDelete: TreeNode) => {
+        setSelectedNodeId(null);
+        deleteNode(nodeToDelete.id);
+    }, [deleteNode]);
+
+    // Keyboard editing on the focused canvas: the arrow keys move between a node, its parent and its children,
+    // and each edit has a key. Results are read out through the live regions
+    const handleCanvasKeyDown = useCallback((event: React.KeyboardEvent<SVGSVGElement>) => {
+        // Keys typed into the in-place editor belong to it
+        if (event.target !== event.currentTarget || event.ctrlKey || event.metaKey || event.altKey) return;
+
+        const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+        const moves: Record<string, FocusMove> = { ArrowUp: 'parent', ArrowLeft: 'left', ArrowRight: 'right' };
+        const focused = focusedNodeId ? TreeUtils.findNodeById(nodes, focusedNodeId)?.node : undefined;
+        const focusNode = (node: TreeNode) => {
+            setFocusedNodeId(node.id);
+            setShowRotationFor(node.id);
+            setAnnouncement(NarrationUtils.describeNode(nodes, node.id));
+        };
 
-        // Only allow deletion of leaf nodes (nodes with no children)
-        if (nodeToDelete.left || nodeToDelete.right) {
-            return; // Not a leaf node, do nothing
+        if (key === 'i' || key === 'Insert') {
+            event.preventDefault();
+            insertInputRef.current?.focus();
+            setAnnouncement('Type a key and press Enter to insert it');
+            return;
         }
 
-        setNodes(prevNodes => {
-            // Create a deep copy of the nodes array
-            const updatedNodes = TreeUtils.deepCopyNodes(prevNodes);
+        // Without a focused node, the first arrow key (or Home) starts at the root
+        if (!focused || key === 'Home') {
+            if (!moves[key] && key !== 'Home') return;
+            event.preventDefault();
+            const root = TreeUtils.findRootNode(nodes);
+            if (root) {
+                focusNode(root);
+            } else {
+                setAnnouncement('The tree is empty. Press I to insert a key');
+            }
+            return;
+        }
+
+        if (moves[key]) {
+            event.preventDefault();
+            const target = NarrationUtils.getFocusTarget(nodes, focused.id, moves[key]);
+            if (target) {
+                focusNode(target);
+            } else {
+                setAnnouncement(moves[key] === 'parent' ? `${focused.value} is the root` : `${focused.value} has no ${moves[key]} child`);
+            }
+            return;
+        }
 
-            // Find the parent of the node to delete
-            const parentInfo = TreeUtils.findParentNode(updatedNodes, nodeToDelete.id);
+        if (!['l', 'r', 'Delete', 'Enter', 'F2', 'Escape'].includes(key)) return;
+        event.preventDefault();
 
-            // If we found a parent, update its reference
-            if (parentInfo) {
-                const { parent, isLeftChild } = parentInfo;
-                if (isLeftChild) {
-                    parent.left = undefined;
-                } else {
-                    parent.right = undefined;
-                }
+        if (key === 'Escape') {
+            setFocusedNodeId(null);
+            setShowRotationFor(null);
+            setAnnouncement('Focus cleared');
+            return;
+        }
+        if (isAnimating || buildQueue) {
+            setAnnouncement('Wait for the current animation to finish');
+            return;
+        }
+
+        if (key === 'l' || key === 'r') {
+            const direction: RotationDirection = key === 'l' ? 'left' : 'right';
+            if (!NarrationUtils.describeRotation(nodes, focused.id, direction)) {
+                setAnnouncement(`Cannot rotate ${direction} at ${focused.value}: it has no ${direction === 'left' ? 'right' : 'left'} child`);
+                return;
+            }
+            rotateAndRecord(focused.id, direction);
+        } else if (key === 'Delete') {
+            // A node with two children keeps its place (it takes its replacement's key); otherwise focus moves up
+            if (!focused.left || !focused.right) {
+                const parentId = TreeUtils.findParentNode(nodes, focused.id)?.parent.id;
+                setFocusedNodeId(parentId ?? focused.left?.id ?? focused.right?.id ?? null);
+            }
+            deleteNode(focused.id);
+        } else {
+            startEditing(focused);
+            setAnnouncement(`Editing ${focused.value}: type the new key and press Enter, or Escape to cancel`);
+        }
+    }, [focusedNodeId, nodes, isAnimating, buildQueue, rotateAndRecord, deleteNode, startEditing]);
+
+    // Keep the keyboard focus on a node that exists, falling back to the root (e.g. after an undo)
+    useEffect(() => {
+        if (focusedNodeId && !nodes.some(node => node.id === focusedNodeId)) {
+            setFocusedNodeId(TreeUtils.findRootNode(nodes)?.id ?? null);
+        }
+    }, [focusedNodeId, nodes]);
+
+    // Finish recording an edit once everything it set off has settled:
+    // animations, queued rebalancing steps, layout reflow and dragging
+    useEffect(() => {
+        if (!pendingHistory || isAnimating || isDragging || buildQueue || pendingOperations.length > 0 || (autoLayout && layoutPending)) return;
+
+        setPendingHistory(null);
+        if (nodes === pendingHistory.before) return; // Nothing changed
+
+        setHistory(prev => HistoryUtils.push(prev, { ...pendingHistory, after: nodes }, maxHistory));
+    }, [pendingHistory, isAnimating, isDragging, buildQueue, pendingOperations, autoLayout, layoutPending, nodes, maxHistory]);
+
+    const canUndo = history.undo.length > 0 && !isAnimating && !pendingHistory && pendingOperations.length === 0;
+    const canRedo = history.redo.length > 0 && !isAnimating && !pendingHistory && pendingOperations.length === 0;
+
+    // Undo the last edit; rotations play their inverses in reverse order, everything else restores the snapshot
+    const undo = useCallback(() => {
+        const undone = HistoryUtils.undo(history);
+        if (!canUndo || !undone) return;
+
+        const { entry } = undone;
+        setHistory(undone.history);
+        setShowRotationFor(null);
+        setOperationMessage(`Undo: ${entry.label}`);
+        logOperation('undo', `Undid "${entry.label}"`, rotatedNodeIds(entry));
+
+        if (entry.rotations) {
+            setPendingOperations([...entry.rotations].reverse().map(rotation => ({
+                type: 'rotate' as const,
+                nodeId: rotation.childId,
+                direction: rotation.direction === 'left' ? 'right' as const : 'left' as const,
+                message: `Undo: ${entry.label}`
+            })));
+        } else {
+            setNodes(entry.before);
+            setCodeTrace(null);
+        }
+    }, [canUndo, history, logOperation]);
+
+    // Redo the last undone edit
+    const redo = useCallback(() => {
+        const redone = HistoryUtils.redo(history);
+        if (!canRedo || !redone) return;
+
+        const { entry } = redone;
+        setHistory(redone.history);
+        setShowRotationFor(null);
+        setOperationMessage(`Redo: ${entry.label}`);
+        logOperation('redo', `Redid "${entry.label}"`, rotatedNodeIds(entry));
+
+        if (entry.rotations) {
+            setPendingOperations(entry.rotations.map(({ nodeId, direction }) => ({
+                type: 'rotate' as const,
+                nodeId,
+                direction,
+                message: `Redo: ${entry.label}`
+            })));
+        } else {
+            setNodes(entry.after);
+            setCodeTrace(null);
+        }
+    }, [canRedo, history, logOperation]);
+
+    // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+
+            // Leave text fields to their own undo
+            const target = event.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                undo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    // Replace the tree with a loaded one, switching to the mode it was saved in
+    const loadTree = useCallback((result: TreeLoadResult, source: string) => {
+        if (!result.ok) {
+            setOperationMessage(`Could not load ${source}: ${result.errors.join('; ')}`);
+            return;
+        }
+        if (isAnimating || pendingOperations.length > 0) {
+            setOperationMessage('Wait for the current animation to finish before loading a tree');
+            return;
+        }
+
+        let loadedNodes = result.nodes;
+        if (result.mode === 'red-black') {
+            loadedNodes = RedBlackUtils.colorUncoloredNodes(loadedNodes, 'black');
+        } else if (loadedNodes.some(node => node.color)) {
+            loadedNodes = RedBlackUtils.clearColors(loadedNodes);
+        }
+
+        if (result.mode === treeMode) {
+            beginHistoryEntry(`Load ${source}`);
+        } else {
+            // As with switching modes by hand, history from the old mode is dropped
+            setHistory(HistoryUtils.empty());
+            setTreeMode(result.mode);
+        }
+
+        setNodes(loadedNodes);
+        setSearchPath([]);
+        setCodeTrace(null);
+        setShowRotationFor(null);
+        setFlaggedNodeId(null);
+        setOperationMessage(`Loaded ${loadedNodes.length} node${loadedNodes.length === 1 ? '' : 's'} from ${source}`);
+        logOperation('load', `Loaded a ${result.mode} tree of ${loadedNodes.length} node${loadedNodes.length === 1 ? '' : 's'} from ${source}`,
+            loadedNodes.map(node => node.id));
+    }, [isAnimating, pendingOperations, treeMode, beginHistoryEntry, logOperation]);
+
+    // Replace the tree with one pasted as DOT or bracket notation, laid out automatically
+    // A parse error selects the offending token in the input
+    const handleImport = useCallback(() => {
+        if (isAnimating || pendingOperations.length > 0 || buildQueue) return;
+
+        const result = ImportUtils.parseTreeText(importText);
+        if (!result.ok) {
+            setImportError(result);
+            setOperationMessage(`Could not import: ${result.error}`);
+            importInputRef.current?.focus();
+            importInputRef.current?.setSelectionRange(result.start, result.end);
+            return;
+        }
+
+        let importedNodes = result.nodes;
+        if (treeMode === 'red-black') {
+            importedNodes = RedBlackUtils.colorUncoloredNodes(importedNodes, 'black');
+        } else if (importedNodes.some(node => node.color)) {
+            importedNodes = RedBlackUtils.clearColors(importedNodes);
+        }
+
+        const source = {
+            'dot': 'Graphviz DOT',
+            'bracket': 'bracket notation',
+            'show-tree': 'a showTree drawing',
+            'sideways': 'a sideways drawing'
+        }[result.format];
+        const count = `${importedNodes.length} node${importedNodes.length === 1 ? '' : 's'}`;
+        beginHistoryEntry(`Import from ${source}`);
+        setImportError(null);
+        setShowRotationFor(null);
+        setSearchPath([]);
+        setCodeTrace(null);
+        setFlaggedNodeId(null);
+        setNodes(LayoutUtils.applyPositions(importedNodes, LayoutUtils.calculateTreeLayout(importedNodes, treeLayoutOptions)));
+        setOperationMessage(`Imported ${count} from ${source}`);
+        logOperation('load', `Imported a tree of ${count} from ${source}`, importedNodes.map(node => node.id));
+    }, [isAnimating, pendingOperations, buildQueue, importText, treeMode, beginHistoryEntry, logOperation]);
+
+    // Set a new quiz question on a random tree
+    // Answers are made by hand, so the tree is switched to plain BST mode where nothing rebalances on its own
+    const startQuizQuestion = useCallback(() => {
+        if (isAnimating || pendingOperations.length > 0 || buildQueue) return;
+
+        const question = QuizUtils.generateQuestion(quizDifficulty);
+        if (!quizQuestion) {
+            setTreeBeforeQuiz({ nodes, mode: treeMode });
+        }
+        if (treeMode === 'bst') {
+            beginHistoryEntry('New quiz question');
+        } else {
+            setHistory(HistoryUtils.empty());
+            setTreeMode('bst');
+        }
+
+        setNodes(LayoutUtils.applyPositions(question.start, LayoutUtils.calculateTreeLayout(question.start, treeLayoutOptions)));
+        setSearchPath([]);
+        setCodeTrace(null);
+        setShowRotationFor(null);
+        setFlaggedNodeId(null);
+        setQuizQuestion(question);
+        setQuizResult(null);
+        setOperationMessage(quizQuestion ? question.prompt : `${question.prompt} (your tree comes back when you end the quiz)`);
+        logOperation('quiz', `Question (${quizDifficulty}): ${question.prompt}`);
+    }, [isAnimating, pendingOperations, buildQueue, quizDifficulty, quizQuestion, nodes, treeMode, beginHistoryEntry, logOperation]);
+
+    // Compare the student's tree with the answer; a wrong answer is followed by the solution,
+    // played from the question's tree
+    const checkQuizAnswer = useCallback(() => {
+        if (!quizQuestion || quizResult || isAnimating || pendingOperations.length > 0) return;
+
+        // The score only reflects the student's own tree, whatever the solution replay does next
+        const difference = TreeUtils.findDifference(nodes, quizQuestion.answer);
+        setQuizScore(score => ({ correct: score.correct + (difference ? 0 : 1), attempted: score.attempted + 1 }));
+        setQuizResult(difference
+            ? { correct: false, message: `Not quite: ${difference}. Here is the solution.` }
+            : { correct: true, message: 'Correct!' });
+        logOperation('quiz', difference
+            ? `Answered "${quizQuestion.prompt}" incorrectly: ${difference}`
+            : `Answered "${quizQuestion.prompt}" correctly`);
+        if (!difference) return;
+
+        const { start, task } = quizQuestion;
+        beginHistoryEntry('Quiz solution');
+        setNodes(LayoutUtils.applyPositions(start, LayoutUtils.calculateTreeLayout(start, treeLayoutOptions)));
+        setSearchPath([]);
+        setShowRotationFor(null);
+        setPendingOperations([task.kind === 'rotate'
+            ? { type: 'rotate', nodeId: task.nodeId, direction: task.direction, message: quizQuestion.prompt }
+            : { type: 'insert', value: task.value, mode: task.mode }]);
+    }, [quizQuestion, quizResult, isAnimating, pendingOperations, nodes, beginHistoryEntry, logOperation]);
+
+    // End the quiz and put back the tree and mode from before it started
+    const endQuiz = useCallback(() => {
+        if (isAnimating || pendingOperations.length > 0) return;
+
+        if (treeBeforeQuiz) {
+            if (treeBeforeQuiz.mode === treeMode) {
+                beginHistoryEntry('End quiz');
+            } else {
+                setHistory(HistoryUtils.empty());
+                setTreeMode(treeBeforeQuiz.mode);
             }
+            setNodes(treeBeforeQuiz.nodes);
+            setSearchPath([]);
+            setCodeTrace(null);
+            setShowRotationFor(null);
+            setOperationMessage('Quiz ended: your tree is back');
+        }
+
+        setTreeBeforeQuiz(null);
+        setQuizQuestion(null);
+        setQuizResult(null);
+        setQuizScore({ correct: 0, attempted: 0 });
+    }, [isAnimating, pendingOperations, treeBeforeQuiz, treeMode, beginHistoryEntry]);
+
+    // The tree drawn as the C starter code prints it, kept up to date with every change
+    const asciiText = useMemo(() => AsciiUtils.format(nodes, asciiFormat), [nodes, asciiFormat]);
+
+    const copyAscii = useCallback(() => {
+        if (!navigator.clipboard) {
+            setOperationMessage('Select the ASCII drawing and copy it by hand');
+            return;
+        }
+        navigator.clipboard.writeText(asciiText)
+            .then(() => setOperationMessage('ASCII drawing copied'))
+            .catch(() => setOperationMessage('Could not copy: select the ASCII drawing and copy it by hand'));
+    }, [asciiText]);
+
+    // Download the tree as a JSON file
+    const saveToFile = useCallback(() => {
+        downloadBlob(new Blob([SaveUtils.toJSON(nodes, treeMode)], { type: 'application/json' }), `tree-${treeMode}.json`);
+    }, [nodes, treeMode]);
+
+    // Export a picture of the tree, or LaTeX or Graphviz source generated from the nodes
+    // Pictures frame the whole tree at its natural size, without previews or rotation controls
+    const exportTree = useCallback((format: ExportFormat) => {
+        setShowExportMenu(false);
+
+        if (format === 'tikz') {
+            downloadBlob(new Blob([ExportUtils.toForest(nodes)], { type: 'application/x-tex' }), 'tree.tex');
+            return;
+        }
+        if (format === 'dot') {
+            downloadBlob(new Blob([ExportUtils.toDot(nodes)], { type: 'text/vnd.graphviz' }), 'tree.dot');
+            return;
+        }
+
+        const bounds = ViewUtils.getBounds(nodes);
+        if (!svgRef.current || !bounds) return;
+
+        const svg = ExportUtils.toStandaloneSvg(svgRef.current, bounds);
+        if (format === 'svg') {
+            downloadBlob(new Blob([svg.text], { type: 'image/svg+xml' }), 'tree.svg');
+            return;
+        }
+
+        const scale = format === 'png-4x' ? 4 : 2;
+        ExportUtils.renderPng(svg.text, svg.width, svg.height, scale)
+            .then(blob => downloadBlob(blob, `tree@${scale}x.png`))
+            .catch((error: Error) => setOperationMessage(`Could not export a PNG: ${error.message}`));
+    }, [nodes]);
 
-            // Remove the node from the array
-            return updatedNodes.filter(node => node.id !== nodeToDelete.id);
+    // Download the operation log as plain text or Markdown
+    const exportLog = useCallback((format: 'text' | 'markdown') => {
+        const contents = format === 'text' ? LogUtils.toText(operationLog) : LogUtils.toMarkdown(operationLog);
+        const blob = new Blob([contents], { type: format === 'text' ? 'text/plain' : 'text/markdown' });
+        downloadBlob(blob, format === 'text' ? 'tree-log.txt' : 'tree-log.md');
+    }, [operationLog]);
+
+    const clearLog = useCallback(() => {
+        setOperationLog([]);
+        setHighlightedLogId(null);
+    }, []);
+
+    // Nodes involved in the log entry that was clicked
+    const logHighlightIds = useMemo(() => {
+        const entry = operationLog.find(logEntry => logEntry.id === highlightedLogId);
+        return new Set(entry?.nodeIds ?? []);
+    }, [operationLog, highlightedLogId]);
+
+    // Keep the newest log entry in view
+    useEffect(() => {
+        const list = logListRef.current;
+        if (list) list.scrollTop = list.scrollHeight;
+    }, [operationLog.length]);
+
+    const handleFileChosen = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = ''; // Allow the same file to be chosen again
+        if (!file) return;
+
+        file.text()
+            .then(text => loadTree(SaveUtils.parseJSON(text), file.name))
+            .catch(() => setOperationMessage(`Could not read ${file.name}`));
+    }, [loadTree]);
+
+    // Put the tree in the URL fragment and copy the link
+    const copyShareLink = useCallback(() => {
+        SaveUtils.encodeFragment(nodes, treeMode).then(fragment => {
+            const url = `${window.location.origin}${window.location.pathname}#tree=${fragment}`;
+            window.history.replaceState(null, '', url);
+
+            if (!navigator.clipboard) {
+                setOperationMessage('Link updated in the address bar; copy it from there to share this tree');
+                return;
+            }
+            navigator.clipboard.writeText(url)
+                .then(() => setOperationMessage('Link copied: opening it restores this tree'))
+                .catch(() => setOperationMessage('Link updated in the address bar; copy it from there to share this tree'));
+        });
+    }, [nodes, treeMode]);
+
+    // Open a tree shared through the URL fragment, on page load and whenever the fragment changes
+    useEffect(() => {
+        const loadFromFragment = () => {
+            const match = window.location.hash.match(/^#tree=(.+)$/);
+            if (match) SaveUtils.decodeFragment(match[1]).then(result => loadTree(result, 'the link'));
+        };
+
+        if (!fragmentCheckedRef.current) {
+            fragmentCheckedRef.current = true;
+            loadFromFragment();
+        }
+
+        window.addEventListener('hashchange', loadFromFragment);
+        return () => window.removeEventListener('hashchange', loadFromFragment);
+    }, [loadTree]);
+
+    // Size the canvas to the space available beside the panels
+    useEffect(() => {
+        const container = canvasContainerRef.current;
+        if (!container || typeof ResizeObserver === 'undefined') return;
+
+        const observer = new ResizeObserver(([entry]) => {
+            const width = Math.max(320, Math.floor(entry.contentRect.width));
+            setCanvasSize({ width, height: Math.round(Math.min(800, Math.max(400, width * 0.7))) });
         });
+        observer.observe(container);
+        return () => observer.disconnect();
     }, []);
 
-    // Handle component cleanup on unmount
+    // Wheel to zoom and drag the background to pan; node drags stop the event before it gets here
+    // Double-click is left for editing keys, small movements still count as clicks, and the key editor keeps its input
     useEffect(() => {
+        if (!svgRef.current) return;
+
+        const zoom = d3.zoom<SVGSVGElement, unknown>()
+            .scaleExtent([ViewUtils.minScale, ViewUtils.maxScale])
+            .clickDistance(4)
+            .filter((event: MouseEvent) => (!event.ctrlKey || event.type === 'wheel') && !event.button &&
+                !(event.target as Element).closest('foreignObject'))
+            .on('zoom', (event: d3.D3ZoomEvent<SVGSVGElement, unknown>) => {
+                const { x, y, k } = event.transform;
+                setViewTransform({ x, y, k });
+            });
+
+        const svg = d3.select(svgRef.current);
+        svg.call(zoom).on('dblclick.zoom', null);
+        zoomRef.current = zoom;
+
         return () => {
-            // Stop simulation and clear animation timers on unmount
-            if (simulationRef.current) {
-                simulationRef.current.stop();
-                simulationRef.current = null;
-            }
+            svg.on('.zoom', null);
+            zoomRef.current = null;
+        };
+    }, []);
 
-            if (animationTimerRef.current !== null) {
-                window.clearTimeout(animationTimerRef.current);
-                animationTimerRef.current = null;
+    // Move the view through d3-zoom so wheel and drag carry on from the new transform
+    const applyView = useCallback((transform: ViewTransform) => {
+        if (!svgRef.current || !zoomRef.current) return;
+
+        d3.select(svgRef.current)
+            .transition()
+            .duration(300)
+            .call(zoomRef.current.transform, d3.zoomIdentity.translate(transform.x, transform.y).scale(transform.k));
+    }, []);
+
+    const fitToView = useCallback(() => {
+        applyView(ViewUtils.fitToView(nodes, canvasSize.width, canvasSize.height));
+    }, [nodes, canvasSize, applyView]);
+
+    const zoomBy = useCallback((factor: number) => {
+        const centre = { x: canvasSize.width / 2, y: canvasSize.height / 2 };
+        applyView(ViewUtils.zoomAround(viewTransform, factor, centre));
+    }, [viewTransform, canvasSize, applyView]);
+
+    // Handle component cleanup on unmount
+    useEffect(() => {
+        return () => {
+            // Clear animation timers on unmount
+            if (stepTimerRef.current !== null) {
+                window.clearTimeout(stepTimerRef.current);
+                stepTimerRef.current = null;
             }
         };
     }, []);
 
     // Render links including normal, animated, and preview links
     const renderLinks = useCallback(() => {
+        // Links between consecutive nodes on the search path are highlighted
+        const searchLinkIds = new Set<string>();
+        for (let i = 1; i < searchPath.length; i++) {
+            // Paths may run down (searching) or up (checking ancestors)
+            searchLinkIds.add(`${searchPath[i - 1]}-${searchPath[i]}`);
+            searchLinkIds.add(`${searchPath[i]}-${searchPath[i - 1]}`);
+        }
+
+        // A playing timeline draws its own links for the current frame
         return (
             <g className="links">
                 {/* Render normal links */}
-                {links.map(link => (
-                    <Link key={link.id} link={link} nodeAnimationComplete={nodeAnimationComplete} />
+                {(playbackFrame ? playbackFrame.links : links).map(link => (
+                    <Link
+                        key={link.id}
+                        link={link}
+                        isHighlighted={searchLinkIds.has(link.id) || violatingLinkIds.has(link.id)}
+                        highlightColor={violatingLinkIds.has(link.id) ? '#F44336' : undefined}
+                    />
                 ))}
 
                 {/* Render animated links */}
-                {animatedLinks.map(link => (
-                    <Link key={link.id} link={link} nodeAnimationComplete={nodeAnimationComplete} />
+                {playbackFrame?.animatedLinks.map(link => (
+                    <Link key={link.id} link={link} nodeAnimationComplete={true} />
                 ))}
 
                 {/* Render preview link if exists */}
-                {previewLink && <Link key={previewLink.id} link={previewLink} nodeAnimationComplete={nodeAnimationComplete} />}
+                {previewLink && <Link key={previewLink.id} link={previewLink} />}
             </g>
         );
-    }, [links, animatedLinks, previewLink, nodeAnimationComplete]);
+    }, [links, previewLink, searchPath, violatingLinkIds, playbackFrame]);
 
     // Render nodes including rotation controls
     const renderNodes = useCallback(() => {
         return (
             <g className="nodes">
-                {/* Render tree nodes */}
-                {nodes.map(node => (
+                {/* Render tree nodes, at their playback positions while a timeline plays */}
+                {(playbackFrame ? playbackFrame.nodes : nodes).map(node => (
                     <g key={node.id}>
                         <Node
                             node={node}
@@ -763,14 +2114,36 @@ const TreeVisualizer: React.FC = () => {
                             onMouseEnter={() => { }} // Remove direct hover behavior
                             onMouseLeave={() => { }} // Remove direct hover behavior
                             onContextMenu={handleContextMenu}
-                            isHighlighted={showRotationFor === node.id}
+                            onDoubleClick={startEditing}
+                            onLongPress={handleLongPress}
+                            isHighlighted={
+                                showRotationFor === node.id ||
+                                searchPath.includes(node.id) ||
+                                logHighlightIds.has(node.id) ||
+                                flaggedNodeId === node.id ||
+                                violatingNodeIds.has(node.id) ||
+                                traversalCursorId === node.id ||
+                                traversalVisitedIds.has(node.id)
+                            }
+                            highlightColor={
+                                flaggedNodeId === node.id || violatingNodeIds.has(node.id) ? '#F44336'
+                                    : searchPath.includes(node.id) ? '#FF9800'
+                                        : logHighlightIds.has(node.id) ? '#00897B'
+                                            : traversalCursorId === node.id ? '#9C27B0'
+                                                : traversalVisitedIds.has(node.id) ? '#4CAF50'
+                                                    : undefined
+                            }
+                            annotation={avlAnnotations.get(node.id)?.text}
+                            annotationColor={avlAnnotations.get(node.id)?.isUnbalanced ? '#F44336' : undefined}
                         />
-                        {showRotationFor === node.id && (
+                        {showRotationFor === node.id && editingNodeId !== node.id && (
                             <g transform={`translate(${node.x},${node.y})`}>
                                 <RotationControls
                                     node={node}
                                     onRotateLeft={rotateLeft}
                                     onRotateRight={rotateRight}
+                                    onRotateLeftRight={TreeUtils.planDoubleRotation(nodes, node.id, 'LR') ? rotateLeftRight : undefined}
+                                    onRotateRightLeft={TreeUtils.planDoubleRotation(nodes, node.id, 'RL') ? rotateRightLeft : undefined}
                                 />
                             </g>
                         )}
@@ -778,7 +2151,49 @@ const TreeVisualizer: React.FC = () => {
                 ))}
             </g>
         );
-    }, [nodes, showRotationFor, handleDragStart, handleDrag, handleDragEnd, handleContextMenu, rotateLeft, rotateRight]);
+    }, [
+        nodes,
+        playbackFrame,
+        showRotationFor,
+        searchPath,
+        logHighlightIds,
+        flaggedNodeId,
+        violatingNodeIds,
+        traversalCursorId,
+        traversalVisitedIds,
+        avlAnnotations,
+        handleDragStart,
+        handleDrag,
+        handleDragEnd,
+        handleContextMenu,
+        startEditing,
+        handleLongPress,
+        editingNodeId,
+        rotateLeft,
+        rotateRight,
+        rotateLeftRight,
+        rotateRightLeft
+    ]);
+
+    // Render the empty child slots of a node selected by touch as dotted nodes to tap
+    const renderSelectedSlots = useCallback(() => {
+        const parent = selectedNodeId ? TreeUtils.findNodeById(nodes, selectedNodeId)?.node : undefined;
+        if (!parent) return null;
+
+        return (
+            <g className="selected-slots">
+                {selectedSlots.map(slot => {
+                    const slotNode: TreeNode = { id: `slot-${slot.isLeft ? 'left' : 'right'}`, value: slot.value, x: slot.x, y: slot.y };
+                    return (
+                        <g key={slotNode.id}>
+                            <Link link={{ id: `${slotNode.id}-link`, source: parent, target: slotNode, type: 'preview' }} />
+                            {RenderUtils.createNodeElement(slotNode, { isPreview: true })}
+                        </g>
+                    );
+                })}
+            </g>
+        );
+    }, [selectedNodeId, selectedSlots, nodes]);
 
     // Render preview node
     const renderPreviewNode = useCallback(() => {
@@ -792,8 +2207,139 @@ const TreeVisualizer: React.FC = () => {
             y: previewNode.y
         };
 
-        return RenderUtils.createNodeElement(tempNode, { isPreview: true });
-    }, [previewNode]);
+        if (previewNode.typedValue === undefined) {
+            return RenderUtils.createNodeElement(tempNode, { isPreview: true });
+        }
+
+        // A typed key is shown with a cursor, outlined red while it doesn't fit the slot
+        const typed = parseInt(previewNode.typedValue, 10);
+        const isValid = !isNaN(typed) && !BSTUtils.findRangeViolation(
+            BSTUtils.getSlotRange(nodes, previewNode.parentId, previewNode.isLeft, previewNode.isChild),
+            typed
+        );
+        return RenderUtils.createNodeElement(tempNode, {
+            isPreview: true,
+            stroke: isValid ? '#2196F3' : '#F44336',
+            label: `${previewNode.typedValue}|`
+        });
+    }, [previewNode, nodes]);
+
+    // Print the interval each node's key must fall in, above the node
+    const renderRanges = useCallback(() => {
+        if (!showRanges) return null;
+
+        return (
+            <g className="range-overlay" pointerEvents="none">
+                {nodes.map(node => {
+                    const range = orderingCheck.ranges.get(node.id);
+                    if (!range) return null;
+                    return (
+                        <text
+                            key={node.id}
+                            x={node.x}
+                            y={node.y - 28}
+                            textAnchor="middle"
+                            fontSize="10px"
+                            fill={violatingNodeIds.has(node.id) ? '#F44336' : '#1565C0'}
+                        >
+                            {BSTUtils.formatRange(range)}
+                        </text>
+                    );
+                })}
+            </g>
+        );
+    }, [showRanges, nodes, orderingCheck, violatingNodeIds]);
+
+    // Label x, y and z beside their nodes while a double rotation runs
+    const renderRotationRoles = useCallback(() => {
+        if (!rotationRoles) return null;
+
+        const shownNodes = playbackFrame ? playbackFrame.nodes : nodes;
+        const roles: [string, string][] = [[rotationRoles.xId, 'x'], [rotationRoles.yId, 'y'], [rotationRoles.zId, 'z']];
+        return (
+            <g className="rotation-roles" pointerEvents="none">
+                {roles.map(([nodeId, role]) => {
+                    const node = shownNodes.find(shownNode => shownNode.id === nodeId);
+                    if (!node) return null;
+                    return (
+                        <text
+                            key={role}
+                            x={node.x + 24}
+                            y={node.y - 16}
+                            fontSize="14px"
+                            fontStyle="italic"
+                            fontWeight="bold"
+                            fill="#6A1B9A"
+                        >
+                            {role}
+                        </text>
+                    );
+                })}
+            </g>
+        );
+    }, [rotationRoles, playbackFrame, nodes]);
+
+    // Name the nodes the C code's pointers point at while an operation runs
+    const renderCodeLabels = useCallback(() => {
+        if (!showCode || !shownCodeTrace || !isAnimating) return null;
+
+        const shownNodes = playbackFrame ? playbackFrame.nodes : nodes;
+        const names = CodeUtils.groupByNode(shownCodeTrace.variables);
+        return (
+            <g className="code-labels" pointerEvents="none">
+                {shownNodes.filter(node => names.has(node.id)).map(node => (
+                    <text
+                        key={node.id}
+                        x={node.x - 24}
+                        y={node.y - 16}
+                        textAnchor="end"
+                        fontSize="12px"
+                        fontFamily="monospace"
+                        fill="#AD1457"
+                    >
+                        {names.get(node.id)!.join(', ')}
+                    </text>
+                ))}
+            </g>
+        );
+    }, [showCode, shownCodeTrace, isAnimating, playbackFrame, nodes]);
+
+    // Ring around the node with the keyboard focus, following it while a timeline plays
+    const renderFocusRing = useCallback(() => {
+        const shownNodes = playbackFrame ? playbackFrame.nodes : nodes;
+        const node = focusedNodeId ? shownNodes.find(shownNode => shownNode.id === focusedNodeId) : undefined;
+        if (!node) return null;
+
+        return (
+            <circle
+                className="focus-ring"
+                cx={node.x}
+                cy={node.y}
+                r={27}
+                fill="none"
+                stroke="#1565C0"
+                strokeWidth={3}
+                strokeDasharray="6,4"
+                pointerEvents="none"
+            />
+        );
+    }, [focusedNodeId, playbackFrame, nodes]);
+
+    // Render the in-place key editor over the node being edited
+    const renderNodeEditor = useCallback(() => {
+        const node = editingNodeId ? TreeUtils.findNodeById(nodes, editingNodeId)?.node : undefined;
+        if (!node) return null;
+
+        return (
+            <NodeEditor
+                key={node.id}
+                node={node}
+                error={editError}
+                onCommit={commitEdit}
+                onCancel={cancelEditing}
+            />
+        );
+    }, [editingNodeId, nodes, editError, commitEdit, cancelEditing]);
 
     return (
         <div className="tree-visualizer">
@@ -802,23 +2348,627 @@ const TreeVisualizer: React.FC = () => {
                 <p className="mb-4">
                     Click anywhere to create a root node. Click near an existing node to create connected nodes.
                     Drag nodes to reposition. Hover near a node to see rotation options.
-                    Right-click on a leaf node (node without children) to delete it.
+                    Right-click on a node to delete it; a node with two children is replaced by its
+                    in-order successor or predecessor. Type a key and press Insert to watch it find its place in the tree,
+                    or Search to follow the comparisons (in splay mode the node reached is splayed to the root).
                 </p>
-                <svg
-                    ref={svgRef}
-                    width={svgWidth}
-                    height={svgHeight}
-                    style={{ margin: "auto" }}
-                    viewBox={`0 0 ${svgWidth} ${svgHeight}`}
-                    className="border border-gray-300 rounded bg-gray-50"
-                    onClick={handleClick}
-                    onMouseMove={handleMouseMove}
-                    onContextMenu={(e) => e.preventDefault()} // Prevent context menu on svg background
-                >
-                    {renderLinks()}
-                    {renderNodes()}
-                    {renderPreviewNode()}
-                </svg>
+                <div className="mb-4 flex justify-center items-center space-x-3">
+                    <span className="text-sm text-gray-600">Mode:</span>
+                    <button
+                        className={`px-3 py-1 rounded ${treeMode === 'bst' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                        onClick={() => changeTreeMode('bst')}
+                        disabled={isAnimating}
+                    >
+                        BST
+                    </button>
+                    <button
+                        className={`px-3 py-1 rounded ${treeMode === 'avl' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                        onClick={() => changeTreeMode('avl')}
+                        disabled={isAnimating}
+                    >
+                        AVL
+                    </button>
+                    <button
+                        className={`px-3 py-1 rounded ${treeMode === 'red-black' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                        onClick={() => changeTreeMode('red-black')}
+                        disabled={isAnimating}
+                    >
+                        Red-Black
+                    </button>
+                    <button
+                        className={`px-3 py-1 rounded ${treeMode === 'splay' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                        onClick={() => changeTreeMode('splay')}
+                        disabled={isAnimating}
+                    >
+                        Splay
+                    </button>
+                </div>
+                <div className="mb-4 flex justify-center items-center space-x-3">
+                    <span className="text-sm text-gray-600">Quiz:</span>
+                    {(['easy', 'medium', 'hard'] as QuizDifficulty[]).map(difficulty => (
+                        <button
+                            key={difficulty}
+                            className={`px-3 py-1 rounded capitalize ${quizDifficulty === difficulty ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                            onClick={() => setQuizDifficulty(difficulty)}
+                            aria-pressed={quizDifficulty === difficulty}
+                        >
+                            {difficulty}
+                        </button>
+                    ))}
+                    <button
+                        className="px-3 py-1 bg-indigo-500 text-white rounded hover:bg-indigo-600 disabled:opacity-50"
+                        onClick={startQuizQuestion}
+                        disabled={isAnimating || buildQueue !== null}
+                    >
+                        {quizQuestion ? 'Next Question' : 'Start Quiz'}
+                    </button>
+                    {quizQuestion && (
+                        <>
+                            <button
+                                className="px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+                                onClick={checkQuizAnswer}
+                                disabled={isAnimating || quizResult !== null}
+                            >
+                                Check Answer
+                            </button>
+                            <button
+                                className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                                onClick={endQuiz}
+                                disabled={isAnimating}
+                            >
+                                End Quiz
+                            </button>
+                            <span className="text-sm text-gray-600">Score: {quizScore.correct} / {quizScore.attempted}</span>
+                        </>
+                    )}
+                </div>
+                {quizQuestion && (
+                    <div
+                        className={`p-2 rounded mb-3 text-sm ${!quizResult ? 'bg-indigo-50 text-indigo-800' : quizResult.correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}
+                        role="status"
+                    >
+                        <span className="font-semibold">{quizQuestion.prompt}</span>
+                        {quizResult
+                            ? ` ${quizResult.message}`
+                            : '. Rotate, insert, delete or edit nodes to show the result, then press Check Answer.'}
+                    </div>
+                )}
+                <div className="mb-4 flex justify-center items-center space-x-3">
+                    <input
+                        ref={insertInputRef}
+                        type="number"
+                        className="px-2 py-1 w-24 border border-gray-300 rounded"
+                        placeholder="Key"
+                        aria-label="Key to insert or search for"
+                        value={insertValue}
+                        onChange={(e) => setInsertValue(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleInsertByValue();
+                        }}
+                        disabled={isAnimating}
+                    />
+                    <button
+                        className="px-3 py-1 bg-blue-400 text-white rounded hover:bg-blue-500 disabled:opacity-50"
+                        onClick={handleInsertByValue}
+                        disabled={isAnimating || insertValue.trim() === ''}
+                    >
+                        Insert Key
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-green-500 text-white rounded hover:bg-green-600 disabled:opacity-50"
+                        onClick={handleSearchByValue}
+                        disabled={isAnimating || insertValue.trim() === ''}
+                    >
+                        Search Key
+                    </button>
+                    <span className="text-sm text-gray-600">Two-child delete uses:</span>
+                    <button
+                        className={`px-3 py-1 rounded ${replacementStrategy === 'successor' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                        onClick={() => setReplacementStrategy('successor')}
+                        disabled={isAnimating}
+                    >
+                        Successor
+                    </button>
+                    <button
+                        className={`px-3 py-1 rounded ${replacementStrategy === 'predecessor' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                        onClick={() => setReplacementStrategy('predecessor')}
+                        disabled={isAnimating}
+                    >
+                        Predecessor
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                        onClick={undo}
+                        disabled={!canUndo}
+                        title={history.undo.length > 0 ? `Undo ${history.undo[history.undo.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                    >
+                        Undo
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                        onClick={redo}
+                        disabled={!canRedo}
+                        title={history.redo.length > 0 ? `Redo ${history.redo[history.redo.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                    >
+                        Redo
+                    </button>
+                    <label className="text-sm text-gray-600 flex items-center space-x-1">
+                        <input
+                            type="checkbox"
+                            checked={!autoLayout}
+                            onChange={(e) => {
+                                setAutoLayout(!e.target.checked);
+                                setLayoutPending(!e.target.checked);
+                            }}
+                        />
+                        <span>Lock manual positions</span>
+                    </label>
+                </div>
+                <div className="mb-4 flex justify-center items-center space-x-3">
+                    <input
+                        type="text"
+                        className="px-2 py-1 w-72 border border-gray-300 rounded"
+                        placeholder="insert 50 30 70 or [50,30,70,null,40]"
+                        value={buildInput}
+                        onChange={(e) => setBuildInput(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleBuild();
+                        }}
+                        disabled={isAnimating || buildQueue !== null}
+                    />
+                    <button
+                        className="px-3 py-1 bg-blue-400 text-white rounded hover:bg-blue-500 disabled:opacity-50"
+                        onClick={handleBuild}
+                        disabled={isAnimating || buildQueue !== null || buildInput.trim() === ''}
+                    >
+                        Build Tree
+                    </button>
+                    <label className="text-sm text-gray-600 flex items-center space-x-1">
+                        <input
+                            type="checkbox"
+                            checked={animateBuild}
+                            onChange={(e) => setAnimateBuild(e.target.checked)}
+                        />
+                        <span>Animate each insert</span>
+                    </label>
+                    <button
+                        className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                        onClick={saveToFile}
+                        disabled={nodes.length === 0}
+                    >
+                        Save JSON
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isAnimating}
+                    >
+                        Load JSON
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleFileChosen}
+                    />
+                    <button
+                        className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                        onClick={copyShareLink}
+                        disabled={nodes.length === 0}
+                    >
+                        Copy Link
+                    </button>
+                    <div className="relative">
+                        <button
+                            className="px-3 py-1 bg-gray-500 text-white rounded hover:bg-gray-600 disabled:opacity-50"
+                            onClick={() => setShowExportMenu(!showExportMenu)}
+                            disabled={nodes.length === 0 || isAnimating}
+                            aria-haspopup="menu"
+                            aria-expanded={showExportMenu}
+                        >
+                            Export ▾
+                        </button>
+                        {showExportMenu && nodes.length > 0 && !isAnimating && (
+                            <div className="absolute right-0 z-10 mt-1 w-48 bg-white border border-gray-300 rounded shadow text-sm text-left" role="menu">
+                                {exportOptions.map(({ format, label }) => (
+                                    <button
+                                        key={format}
+                                        className="block w-full px-3 py-1 text-left hover:bg-gray-100"
+                                        role="menuitem"
+                                        onClick={() => exportTree(format)}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+                <div className="mb-4 flex justify-center items-start space-x-3">
+                    <textarea
+                        ref={importInputRef}
+                        rows={2}
+                        className={`px-2 py-1 w-96 border rounded font-mono text-sm ${importError ? 'border-red-500' : 'border-gray-300'}`}
+                        placeholder="Paste 50(30(20,40),70(,80)), digraph { 50 -> 30; 50 -> 70 } or an ASCII drawing"
+                        aria-label="Tree to import, in bracket notation, Graphviz DOT or an ASCII drawing"
+                        aria-invalid={importError !== null}
+                        value={importText}
+                        onChange={(e) => {
+                            setImportText(e.target.value);
+                            setImportError(null);
+                        }}
+                        disabled={isAnimating || buildQueue !== null}
+                    />
+                    <button
+                        className="px-3 py-1 bg-blue-400 text-white rounded hover:bg-blue-500 disabled:opacity-50"
+                        onClick={handleImport}
+                        disabled={isAnimating || buildQueue !== null || importText.trim() === ''}
+                    >
+                        Import Tree
+                    </button>
+                </div>
+                {importError && (
+                    <div className="mb-4 p-2 bg-red-50 text-red-800 rounded text-sm text-left">
+                        <div>{importError.error}</div>
+                        <pre className="mt-1 font-mono">{ImportUtils.formatErrorExcerpt(importText, importError.start, importError.end)}</pre>
+                    </div>
+                )}
+                <div className="mb-4 flex justify-center items-center space-x-3">
+                    <span className="text-sm text-gray-600">Traversal:</span>
+                    {(['pre-order', 'in-order', 'post-order', 'level-order'] as TraversalOrder[]).map(order => (
+                        <button
+                            key={order}
+                            className={`px-3 py-1 rounded ${traversalOrder === order ? 'bg-purple-500 text-white' : 'bg-gray-200'}`}
+                            onClick={() => {
+                                setTraversalOrder(order);
+                                resetTraversal();
+                            }}
+                        >
+                            {order.charAt(0).toUpperCase() + order.slice(1)}
+                        </button>
+                    ))}
+                    <button
+                        className="px-3 py-1 bg-purple-500 text-white rounded hover:bg-purple-600 disabled:opacity-50"
+                        onClick={toggleTraversalPlaying}
+                        disabled={nodes.length === 0 || isAnimating}
+                    >
+                        {isTraversalPlaying ? 'Pause' : 'Play'}
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-purple-500 text-white rounded hover:bg-purple-600 disabled:opacity-50"
+                        onClick={stepTraversal}
+                        disabled={nodes.length === 0 || isAnimating || isTraversalPlaying}
+                    >
+                        Step
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                        onClick={resetTraversal}
+                        disabled={traversalSteps.length === 0}
+                    >
+                        Reset
+                    </button>
+                    <label className="text-sm text-gray-600 flex items-center space-x-1">
+                        <input
+                            type="checkbox"
+                            checked={showTraversalPending}
+                            onChange={(e) => setShowTraversalPending(e.target.checked)}
+                        />
+                        <span>Show {traversalOrder === 'level-order' ? 'queue' : 'recursion stack'}</span>
+                    </label>
+                </div>
+                <div className="mb-4 flex justify-center items-center space-x-3">
+                    <span className="text-sm text-gray-600">Playback:</span>
+                    <button
+                        className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                        onClick={stepPlaybackBack}
+                        disabled={!playback || playbackTime === 0}
+                    >
+                        Back
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                        onClick={() => setIsPlaybackPaused(!isPlaybackPaused)}
+                        disabled={!playback}
+                    >
+                        {playback && isPlaybackPaused ? 'Play' : 'Pause'}
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                        onClick={stepPlaybackForward}
+                        disabled={!playback}
+                    >
+                        Step
+                    </button>
+                    <label className="text-sm text-gray-600 flex items-center space-x-1">
+                        <span>Speed</span>
+                        <input
+                            type="range"
+                            min={0.25}
+                            max={2}
+                            step={0.25}
+                            value={playbackSpeed}
+                            onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+                        />
+                        <span className="w-10">{playbackSpeed}x</span>
+                    </label>
+                    <label className="text-sm text-gray-600 flex items-center space-x-1">
+                        <input
+                            type="checkbox"
+                            checked={pauseEachPhase}
+                            onChange={(e) => setPauseEachPhase(e.target.checked)}
+                        />
+                        <span>Pause after each phase</span>
+                    </label>
+                    <label className="text-sm text-gray-600 flex items-center space-x-1">
+                        <input
+                            type="checkbox"
+                            checked={showCode}
+                            onChange={(e) => setShowCode(e.target.checked)}
+                        />
+                        <span>Show C code</span>
+                    </label>
+                </div>
+                {playback && playbackFrame && playbackFrame.markerIndex >= 0 && (
+                    <div className="bg-indigo-50 text-indigo-900 p-2 rounded mb-3 text-sm">
+                        Phase {playbackFrame.markerIndex + 1} of {playback.timeline.markers.length}: {playbackFrame.caption}
+                    </div>
+                )}
+                <div className="bg-blue-50 p-2 rounded mb-3 min-h-[2.5rem]" role="status" aria-live="polite">
+                    {operationMessage}
+                </div>
+                <div className="sr-only" aria-live="polite">
+                    {announcement}
+                </div>
+                {nodes.length > 0 && (
+                    <div className={`p-2 rounded mb-3 text-sm flex justify-between items-center ${orderingCheck.violations.length === 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                        <span>
+                            {orderingCheck.violations.length === 0
+                                ? 'Valid BST'
+                                : `${orderingCheck.violations.length} BST violation${orderingCheck.violations.length === 1 ? '' : 's'}: ` +
+                                orderingCheck.violations.map(violation => violation.message).join('; ')}
+                        </span>
+                        <label className="text-gray-600 flex items-center space-x-1 ml-3 whitespace-nowrap">
+                            <input
+                                type="checkbox"
+                                checked={showRanges}
+                                onChange={(e) => setShowRanges(e.target.checked)}
+                            />
+                            <span>Show ranges</span>
+                        </label>
+                    </div>
+                )}
+                {treeMode === 'red-black' && (
+                    <div className={`p-2 rounded mb-3 text-sm ${redBlackViolations.length === 0 ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+                        {redBlackViolations.length === 0
+                            ? 'Red-black invariants hold: the root is black, no red node has a red child, and every path has the same black height'
+                            : `Red-black violations: ${redBlackViolations.join('; ')}`}
+                    </div>
+                )}
+                <div className="mb-2 flex justify-center items-center space-x-3">
+                    <span className="text-sm text-gray-600">View:</span>
+                    <button
+                        className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+                        onClick={() => zoomBy(1 / 1.25)}
+                    >
+                        −
+                    </button>
+                    <span className="text-sm text-gray-600 w-12">{Math.round(viewTransform.k * 100)}%</span>
+                    <button
+                        className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+                        onClick={() => zoomBy(1.25)}
+                    >
+                        +
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                        onClick={fitToView}
+                        disabled={nodes.length === 0}
+                    >
+                        Fit Tree to View
+                    </button>
+                    <button
+                        className="px-3 py-1 bg-gray-200 rounded hover:bg-gray-300"
+                        onClick={() => applyView(ViewUtils.identity)}
+                    >
+                        Reset View
+                    </button>
+                    <span className="text-sm text-gray-500">Scroll to zoom, drag the background to pan</span>
+                </div>
+                <p id="tree-keyboard-help" className="mb-2 text-sm text-gray-500">
+                    Keyboard: Tab to the canvas, then use the arrow keys to move to a node's parent (Up) or its left and right
+                    children. L and R rotate at the focused node, Delete removes it, Enter edits its key, I jumps to the key box
+                    to insert, and Escape clears the focus.
+                </p>
+                <div className="flex justify-center items-start space-x-3">
+                    <div ref={canvasContainerRef} className="flex-1 min-w-0">
+                        <svg
+                            ref={svgRef}
+                            width={canvasSize.width}
+                            height={canvasSize.height}
+                            viewBox={`0 0 ${canvasSize.width} ${canvasSize.height}`}
+                            className="block border border-gray-300 rounded bg-gray-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400"
+                            tabIndex={0}
+                            role="application"
+                            aria-label="Tree editor"
+                            aria-describedby="tree-keyboard-help"
+                            onKeyDown={handleCanvasKeyDown}
+                            onClick={handleClick}
+                            onPointerMove={handlePointerMove}
+                            onPointerDown={(e) => { lastPointerTypeRef.current = e.pointerType; }}
+                            onContextMenu={(e) => e.preventDefault()} // Prevent context menu on svg background
+                        >
+                            <g className="view" transform={ViewUtils.toTransformAttribute(viewTransform)}>
+                                {renderLinks()}
+                                {renderNodes()}
+                                {renderFocusRing()}
+                                {renderRanges()}
+                                {renderRotationRoles()}
+                                {renderCodeLabels()}
+                                {renderSelectedSlots()}
+                                {renderPreviewNode()}
+                                {renderNodeEditor()}
+                            </g>
+                        </svg>
+                    </div>
+                    {nodes.length > 0 && (
+                        <div className="w-48 p-2 bg-white border border-gray-300 rounded text-sm text-left">
+                            <div className="font-semibold mb-1">Tree statistics</div>
+                            <div>Nodes: {treeStats.count}</div>
+                            <div>Height: {treeStats.height}</div>
+                            <div>Leaves: {treeStats.leaves}</div>
+                            <div>Min key: {treeStats.min}</div>
+                            <div>Max key: {treeStats.max}</div>
+                            <div title="At every node, the left and right subtree sizes differ by at most one">
+                                Perfectly balanced: {treeStats.isPerfectlyBalanced ? 'yes' : 'no'}
+                            </div>
+                            <div>Perfect: {treeStats.isPerfect ? 'yes' : 'no'}</div>
+                            <div>Complete: {treeStats.isComplete ? 'yes' : 'no'}</div>
+                            <div>Degenerate: {treeStats.isDegenerate ? 'yes' : 'no'}</div>
+                            <div title="Mean number of comparisons to find a key in the tree">
+                                Avg search cost: {treeStats.averageSearchCost.toFixed(2)}
+                            </div>
+                            {treeStats.count < nodes.length && (
+                                <div className="mt-1 text-gray-500">
+                                    {nodes.length - treeStats.count} node{nodes.length - treeStats.count === 1 ? '' : 's'} not attached to the root
+                                </div>
+                            )}
+                            <div className="font-semibold mt-2 mb-1">Hovered node</div>
+                            {hoveredNode && hoveredStats ? (
+                                <>
+                                    <div>Key: {hoveredNode.value}</div>
+                                    <div>Depth: {hoveredStats.depth}</div>
+                                    <div>Subtree size: {hoveredStats.size}</div>
+                                    <div>Subtree height: {hoveredStats.height}</div>
+                                </>
+                            ) : (
+                                <div className="text-gray-500">Hover over a node</div>
+                            )}
+                        </div>
+                    )}
+                    {showCode && shownCodeTrace && (
+                        <div className="w-96 p-2 bg-white border border-gray-300 rounded text-sm text-left">
+                            <div className="font-semibold mb-1">C code</div>
+                            <pre className="overflow-x-auto font-mono text-xs leading-snug">
+                                {CodeUtils.getProgram(shownCodeTrace.fn).map((codeLine, index) => {
+                                    const isCurrent = codeLine.id === shownCodeTrace.lineId;
+                                    return (
+                                        <div
+                                            key={index}
+                                            className={isCurrent ? 'bg-yellow-200 font-semibold' : ''}
+                                            aria-current={isCurrent ? 'step' : undefined}
+                                        >
+                                            {codeLine.text}
+                                        </div>
+                                    );
+                                })}
+                            </pre>
+                            <div className="font-semibold mt-2 mb-1">Variables</div>
+                            <div className="font-mono text-xs" style={{ color: '#AD1457' }}>
+                                {shownCodeTrace.key !== undefined && <div>key = {shownCodeTrace.key}</div>}
+                                {codeVariables.map(text => <div key={text}>{text}</div>)}
+                            </div>
+                        </div>
+                    )}
+                    {showTraversalPending && traversalSteps.length > 0 && (
+                        <div className="w-40 p-2 bg-white border border-gray-300 rounded text-sm">
+                            <div className="font-semibold mb-1">
+                                {traversalOrder === 'level-order' ? 'Queue (front first)' : 'Stack (top first)'}
+                            </div>
+                            {traversalPending.length === 0 && <div className="text-gray-500">empty</div>}
+                            {traversalPending.map(({ id, value }) => (
+                                <div key={id} className="px-2 py-1 mb-1 bg-purple-50 border border-purple-200 rounded font-mono">
+                                    {traversalOrder === 'level-order' ? value : `visit(${value})`}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                {traversalSteps.length > 0 && (
+                    <div className="mt-3 p-2 bg-white border border-gray-300 rounded font-mono flex flex-wrap justify-center items-center min-h-[2.5rem]">
+                        <span className="text-sm text-gray-600 mr-2 font-sans">Output:</span>
+                        {traversalOutput.map((step, index) => (
+                            <span
+                                key={step.nodeId}
+                                className={`px-2 py-0.5 mr-1 rounded ${index === traversalOutput.length - 1 && traversalCursorId === step.nodeId ? 'bg-purple-500 text-white' : 'bg-green-100'}`}
+                            >
+                                {step.output}
+                            </span>
+                        ))}
+                    </div>
+                )}
+                {nodes.length > 0 && (
+                    <div className="mt-3 p-2 bg-white border border-gray-300 rounded text-sm text-left">
+                        <div className="flex justify-between items-center mb-1">
+                            <span className="font-semibold">ASCII drawing</span>
+                            <div className="flex items-center space-x-2">
+                                {([['show-tree', 'showTree'], ['sideways', 'Sideways']] as [AsciiFormat, string][]).map(([format, label]) => (
+                                    <button
+                                        key={format}
+                                        className={`px-2 py-0.5 rounded ${asciiFormat === format ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+                                        onClick={() => setAsciiFormat(format)}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                                <button
+                                    className="px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300"
+                                    onClick={copyAscii}
+                                >
+                                    Copy
+                                </button>
+                            </div>
+                        </div>
+                        <pre className="max-h-64 overflow-auto p-2 bg-gray-50 font-mono leading-tight">{asciiText}</pre>
+                        <div className="mt-1 text-gray-500">Paste a drawing into the import box to rebuild the tree from it</div>
+                    </div>
+                )}
+                <div className="mt-3 p-2 bg-white border border-gray-300 rounded text-sm text-left">
+                    <div className="flex justify-between items-center mb-1">
+                        <span className="font-semibold">Operation log</span>
+                        <div className="space-x-2">
+                            <button
+                                className="px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                                onClick={() => exportLog('text')}
+                                disabled={operationLog.length === 0}
+                            >
+                                Export Text
+                            </button>
+                            <button
+                                className="px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                                onClick={() => exportLog('markdown')}
+                                disabled={operationLog.length === 0}
+                            >
+                                Export Markdown
+                            </button>
+                            <button
+                                className="px-2 py-0.5 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+                                onClick={clearLog}
+                                disabled={operationLog.length === 0}
+                            >
+                                Clear
+                            </button>
+                        </div>
+                    </div>
+                    {operationLog.length === 0 && <div className="text-gray-500">Edits to the tree are recorded here</div>}
+                    <ol ref={logListRef} className="max-h-48 overflow-y-auto">
+                        {operationLog.map((entry, index) => (
+                            <li key={entry.id}>
+                                <button
+                                    className={`w-full text-left px-2 py-0.5 rounded ${highlightedLogId === entry.id ? 'bg-teal-100' : 'hover:bg-gray-100'}`}
+                                    onClick={() => setHighlightedLogId(highlightedLogId === entry.id ? null : entry.id)}
+                                    aria-pressed={highlightedLogId === entry.id}
+                                    title="Highlight the nodes involved"
+                                >
+                                    <span className="text-gray-500 mr-2">{index + 1}. {LogUtils.formatTime(entry.time)}</span>
+                                    <span className="font-semibold mr-1">{LogUtils.getKindLabel(entry.kind)}:</span>
+                                    {entry.text}
+                                </button>
+                            </li>
+                        ))}
+                    </ol>
+                </div>
             </div>
         </div>
     );
@@ -0,0 +1,46 @@
+import AsciiUtils from './asciiUtils';
+import SequenceUtils from './sequenceUtils';
+
+describe('AsciiUtils.toShowTree', () => {
+    test('centres each key over its edges', () => {
+        const nodes = SequenceUtils.buildTree([50, 30, 70, 20, 40, 60, 80], 'bst');
+        expect(AsciiUtils.toShowTree(nodes)).toBe([
+            '       50',
+            '       / \\',
+            '      /   \\',
+            '     /     \\',
+            '    /       \\',
+            '   30       70',
+            '  / \\       / \\',
+            ' /   \\     /   \\',
+            '20   40   60   80',
+            ''
+        ].join('\n'));
+    });
+
+    test('draws lone children and keys of different widths', () => {
+        const nodes = SequenceUtils.buildTree([100, 5, 200, 150, 1000, 120], 'bst');
+        expect(AsciiUtils.toShowTree(nodes)).toBe([
+            '   100',
+            '   / \\',
+            '  5  200',
+            '     / \\',
+            '    /   \\',
+            '  150  1000',
+            '  /',
+            '120',
+            ''
+        ].join('\n'));
+    });
+
+    test('draws nothing for an empty tree', () => {
+        expect(AsciiUtils.toShowTree([])).toBe('');
+    });
+});
+
+describe('AsciiUtils.toSideways', () => {
+    test('puts the right subtree above and indents by depth', () => {
+        const nodes = SequenceUtils.buildTree([50, 30, 70, 40], 'bst');
+        expect(AsciiUtils.toSideways(nodes)).toBe('    70\n50\n        40\n    30\n');
+    });
+});
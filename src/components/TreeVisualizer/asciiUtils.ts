@@ -0,0 +1,155 @@
+// ASCII drawings of the tree in the formats printed by the COMP2521 C starter code, so the output
+// of a student's BSTree program can be compared with the visualiser byte for byte
+import { TreeNode, AsciiFormat } from './types';
+import TreeUtils from './treeUtils';
+
+// A node of the drawing, as in the C printer's asciinode struct
+interface AsciiNode {
+    left: AsciiNode | null;
+    right: AsciiNode | null;
+    edgeLength: number; // Rows of "/" or "\" between this node and its children
+    height: number; // Rows from this node's label down to the bottom of its subtree
+    label: string;
+    parentDir: -1 | 0 | 1; // -1 for a left child, 1 for a right child, 0 for the root
+}
+
+// Minimum horizontal gap between neighbouring subtrees
+const gap = 3;
+
+// Indent per level in the sideways format
+const sidewaysIndent = '    ';
+
+const buildAsciiTree = (nodeMap: Map<string, TreeNode>, nodeId: string | undefined, parentDir: -1 | 0 | 1, seen: Set<string>): AsciiNode | null => {
+    const node = nodeId ? nodeMap.get(nodeId) : undefined;
+    if (!node || seen.has(node.id)) return null;
+    seen.add(node.id);
+
+    return {
+        left: buildAsciiTree(nodeMap, node.left?.id, -1, seen),
+        right: buildAsciiTree(nodeMap, node.right?.id, 1, seen),
+        edgeLength: 0,
+        height: 0,
+        label: `${node.value}`,
+        parentDir
+    };
+};
+
+// Leftmost column used on each row of a subtree whose root label is centred at (x, y)
+const computeLeftProfile = (node: AsciiNode | null, x: number, y: number, profile: number[]) => {
+    if (!node) return;
+    const isLeft = node.parentDir === -1 ? 1 : 0;
+    profile[y] = Math.min(profile[y], x - Math.floor((node.label.length - isLeft) / 2));
+    if (node.left) {
+        for (let i = 1; i <= node.edgeLength; i++) {
+            profile[y + i] = Math.min(profile[y + i], x - i);
+        }
+    }
+    computeLeftProfile(node.left, x - node.edgeLength - 1, y + node.edgeLength + 1, profile);
+    computeLeftProfile(node.right, x + node.edgeLength + 1, y + node.edgeLength + 1, profile);
+};
+
+// Rightmost column used on each row of a subtree whose root label is centred at (x, y)
+const computeRightProfile = (node: AsciiNode | null, x: number, y: number, profile: number[]) => {
+    if (!node) return;
+    const notLeft = node.parentDir !== -1 ? 1 : 0;
+    profile[y] = Math.max(profile[y], x + Math.floor((node.label.length - notLeft) / 2));
+    if (node.right) {
+        for (let i = 1; i <= node.edgeLength; i++) {
+            profile[y + i] = Math.max(profile[y + i], x + i);
+        }
+    }
+    computeRightProfile(node.left, x - node.edgeLength - 1, y + node.edgeLength + 1, profile);
+    computeRightProfile(node.right, x + node.edgeLength + 1, y + node.edgeLength + 1, profile);
+};
+
+// Make each node's edges just long enough to keep its subtrees at least the gap apart
+const computeEdgeLengths = (node: AsciiNode | null) => {
+    if (!node) return;
+    computeEdgeLengths(node.left);
+    computeEdgeLengths(node.right);
+
+    if (node.left || node.right) {
+        const rightProfile = new Array<number>(node.left?.height ?? 0).fill(-Infinity);
+        const leftProfile = new Array<number>(node.right?.height ?? 0).fill(Infinity);
+        computeRightProfile(node.left, 0, 0, rightProfile);
+        computeLeftProfile(node.right, 0, 0, leftProfile);
+
+        const minHeight = node.left && node.right ? Math.min(node.left.height, node.right.height) : 0;
+        let delta = 4;
+        for (let i = 0; i < minHeight; i++) {
+            delta = Math.max(delta, gap + 1 + rightProfile[i] - leftProfile[i]);
+        }
+
+        // Children that are leaves may sit one column closer
+        if ((node.left?.height === 1 || node.right?.height === 1) && delta > 4) delta--;
+        node.edgeLength = Math.floor((delta + 1) / 2) - 1;
+    }
+
+    node.height = Math.max(
+        1,
+        node.left ? node.left.height + node.edgeLength + 1 : 0,
+        node.right ? node.right.height + node.edgeLength + 1 : 0
+    );
+};
+
+// Draw one row of a subtree whose root label is centred at column x, continuing the line so far
+const printLevel = (node: AsciiNode | null, x: number, level: number, line: string): string => {
+    if (!node) return line;
+
+    const padTo = (column: number) => line + ' '.repeat(Math.max(0, column - line.length));
+    if (level === 0) {
+        const isLeft = node.parentDir === -1 ? 1 : 0;
+        line = padTo(x - Math.floor((node.label.length - isLeft) / 2)) + node.label;
+    } else if (node.edgeLength >= level) {
+        if (node.left) line = padTo(x - level) + '/';
+        if (node.right) line = padTo(x + level) + '\\';
+    } else {
+        line = printLevel(node.left, x - node.edgeLength - 1, level - node.edgeLength - 1, line);
+        line = printLevel(node.right, x + node.edgeLength + 1, level - node.edgeLength - 1, line);
+    }
+    return line;
+};
+
+const AsciiUtils = {
+    // The tree under the main root as drawn by showTree in the starter code's BSTree.c: labels centred
+    // over diagonal "/" and "\" edges, with no trailing spaces and a newline after every row
+    toShowTree: (nodes: TreeNode[]): string => {
+        const root = TreeUtils.findRootNode(nodes);
+        const asciiRoot = root ? buildAsciiTree(TreeUtils.buildNodeMap(nodes), root.id, 0, new Set()) : null;
+        if (!asciiRoot) return '';
+
+        computeEdgeLengths(asciiRoot);
+        const leftProfile = new Array<number>(asciiRoot.height).fill(Infinity);
+        computeLeftProfile(asciiRoot, 0, 0, leftProfile);
+        const minX = Math.min(0, ...leftProfile);
+
+        const rows: string[] = [];
+        for (let level = 0; level < asciiRoot.height; level++) {
+            rows.push(printLevel(asciiRoot, -minX, level, ''));
+        }
+        return rows.map(row => row + '\n').join('');
+    },
+
+    // The tree turned on its side: right subtree above, left subtree below, four spaces per level
+    toSideways: (nodes: TreeNode[]): string => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const seen = new Set<string>();
+        const rows: string[] = [];
+        const visit = (nodeId: string | undefined, depth: number) => {
+            const node = nodeId ? nodeMap.get(nodeId) : undefined;
+            if (!node || seen.has(node.id)) return;
+            seen.add(node.id);
+            visit(node.right?.id, depth + 1);
+            rows.push(`${sidewaysIndent.repeat(depth)}${node.value}`);
+            visit(node.left?.id, depth + 1);
+        };
+        visit(TreeUtils.findRootNode(nodes)?.id, 0);
+        return rows.map(row => row + '\n').join('');
+    },
+
+    format: (nodes: TreeNode[], format: AsciiFormat): string => {
+        return format === 'show-tree' ? AsciiUtils.toShowTree(nodes) : AsciiUtils.toSideways(nodes);
+    }
+};
+
+export default AsciiUtils;
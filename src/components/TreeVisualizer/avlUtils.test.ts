@@ -0,0 +1,44 @@
+import AVLUtils from './avlUtils';
+import { TreeNode } from './types';
+
+// Build a chain of nodes, each the given child of the one before
+const buildChain = (values: number[], sides: ('left' | 'right')[]): TreeNode[] => {
+    const nodes: TreeNode[] = values.map(value => ({ id: `n${value}`, value, x: 0, y: 0 }));
+    sides.forEach((side, index) => {
+        nodes[index][side] = nodes[index + 1];
+    });
+    return nodes;
+};
+
+describe('AVLUtils', () => {
+    test('uses -1 for empty subtrees when calculating heights', () => {
+        const nodes = buildChain([30, 20], ['left']);
+        const heights = AVLUtils.calculateHeights(nodes);
+        expect(heights.get('n20')).toBe(0);
+        expect(heights.get('n30')).toBe(1);
+        expect(AVLUtils.getBalanceFactor(nodes[0], heights)).toBe(1);
+    });
+
+    test('plans a single rotation for the left-left case', () => {
+        const rebalance = AVLUtils.planRebalance(buildChain([30, 20, 10], ['left', 'left']), 'n20');
+        expect(rebalance.walkedIds).toEqual(['n20', 'n30']);
+        expect(rebalance.unbalancedId).toBe('n30');
+        expect(rebalance.imbalanceCase).toBe('LL');
+        expect(rebalance.rotations).toEqual([{ nodeId: 'n30', direction: 'right' }]);
+    });
+
+    test('plans a double rotation for the right-left case', () => {
+        const rebalance = AVLUtils.planRebalance(buildChain([10, 30, 20], ['right', 'left']), 'n20');
+        expect(rebalance.imbalanceCase).toBe('RL');
+        expect(rebalance.rotations).toEqual([
+            { nodeId: 'n30', direction: 'right' },
+            { nodeId: 'n10', direction: 'left' }
+        ]);
+    });
+
+    test('reports a balanced tree', () => {
+        const rebalance = AVLUtils.planRebalance(buildChain([30, 20], ['left']), 'n20');
+        expect(rebalance.unbalancedId).toBeNull();
+        expect(rebalance.rotations).toEqual([]);
+    });
+});
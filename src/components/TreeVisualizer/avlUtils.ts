@@ -0,0 +1,97 @@
+// AVL tree calculations: heights, balance factors and rebalancing rotations
+// Heights follow the COMP2521 convention: an empty tree has height -1 and a leaf has height 0
+import { TreeNode, AVLCase, AVLRebalance, RotationStep } from './types';
+import TreeUtils from './treeUtils';
+
+const AVLUtils = {
+    // Calculate the height of every node in the tree
+    calculateHeights: (nodes: TreeNode[]): Map<string, number> => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const heights = new Map<string, number>();
+
+        const height = (nodeId: string | undefined): number => {
+            if (!nodeId) return -1;
+            const known = heights.get(nodeId);
+            if (known !== undefined) return known;
+
+            const node = nodeMap.get(nodeId);
+            if (!node) return -1;
+
+            const result = 1 + Math.max(height(node.left?.id), height(node.right?.id));
+            heights.set(nodeId, result);
+            return result;
+        };
+
+        nodes.forEach(node => height(node.id));
+        return heights;
+    },
+
+    // Balance factor: height of the left subtree minus height of the right subtree
+    getBalanceFactor: (node: TreeNode, heights: Map<string, number>): number => {
+        const leftHeight = node.left ? heights.get(node.left.id) ?? -1 : -1;
+        const rightHeight = node.right ? heights.get(node.right.id) ?? -1 : -1;
+        return leftHeight - rightHeight;
+    },
+
+    // Calculate the balance factor of every node in the tree
+    calculateBalanceFactors: (nodes: TreeNode[]): Map<string, number> => {
+        const heights = AVLUtils.calculateHeights(nodes);
+        const balanceFactors = new Map<string, number>();
+        nodes.forEach(node => balanceFactors.set(node.id, AVLUtils.getBalanceFactor(node, heights)));
+        return balanceFactors;
+    },
+
+    // Walk up from a node towards the root and plan the rotations for the first unbalanced node
+    planRebalance: (nodes: TreeNode[], fromId: string): AVLRebalance => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const balanceFactors = AVLUtils.calculateBalanceFactors(nodes);
+        const walkedIds: string[] = [];
+
+        for (const nodeId of TreeUtils.getAncestorPath(nodes, fromId)) {
+            walkedIds.push(nodeId);
+
+            const balanceFactor = balanceFactors.get(nodeId) ?? 0;
+            if (Math.abs(balanceFactor) <= 1) continue;
+
+            const node = nodeMap.get(nodeId)!;
+            const leftHeavy = balanceFactor > 1;
+            const tallChildId = leftHeavy ? node.left!.id : node.right!.id;
+            const childBalance = balanceFactors.get(tallChildId) ?? 0;
+
+            // The child leaning the other way means a double rotation is needed
+            let imbalanceCase: AVLCase;
+            let rotations: RotationStep[];
+            if (leftHeavy) {
+                imbalanceCase = childBalance >= 0 ? 'LL' : 'LR';
+                rotations = imbalanceCase === 'LL'
+                    ? [{ nodeId, direction: 'right' }]
+                    : [{ nodeId: tallChildId, direction: 'left' }, { nodeId, direction: 'right' }];
+            } else {
+                imbalanceCase = childBalance <= 0 ? 'RR' : 'RL';
+                rotations = imbalanceCase === 'RR'
+                    ? [{ nodeId, direction: 'left' }]
+                    : [{ nodeId: tallChildId, direction: 'right' }, { nodeId, direction: 'left' }];
+            }
+
+            return { walkedIds, unbalancedId: nodeId, imbalanceCase, rotations };
+        }
+
+        return { walkedIds, unbalancedId: null, rotations: [] };
+    },
+
+    // Human-readable explanation of an imbalance case
+    describeCase: (imbalanceCase: AVLCase): string => {
+        switch (imbalanceCase) {
+            case 'LL':
+                return 'left-left case: a single right rotation';
+            case 'LR':
+                return 'left-right case: rotate the left child left, then rotate right';
+            case 'RR':
+                return 'right-right case: a single left rotation';
+            case 'RL':
+                return 'right-left case: rotate the right child right, then rotate left';
+        }
+    }
+};
+
+export default AVLUtils;
@@ -0,0 +1,112 @@
+import BSTUtils from './bstUtils';
+import { TreeNode } from './types';
+
+// Build a flat node array for the tree 50(30(20,40),70)
+const buildTree = (): TreeNode[] => {
+    const n20: TreeNode = { id: 'n20', value: 20, x: 0, y: 0 };
+    const n40: TreeNode = { id: 'n40', value: 40, x: 0, y: 0 };
+    const n70: TreeNode = { id: 'n70', value: 70, x: 0, y: 0 };
+    const n30: TreeNode = { id: 'n30', value: 30, x: 0, y: 0, left: n20, right: n40 };
+    const n50: TreeNode = { id: 'n50', value: 50, x: 0, y: 0, left: n30, right: n70 };
+    return [n50, n30, n70, n20, n40];
+};
+
+describe('BSTUtils.findSearchPath', () => {
+    test('walks to the empty slot for a new value', () => {
+        const path = BSTUtils.findSearchPath(buildTree(), 35);
+        expect(path.visitedIds).toEqual(['n50', 'n30', 'n40']);
+        expect(path.found).toBe(false);
+        expect(path.parentId).toBe('n40');
+        expect(path.isLeft).toBe(true);
+    });
+
+    test('stops at an existing value', () => {
+        const path = BSTUtils.findSearchPath(buildTree(), 30);
+        expect(path.visitedIds).toEqual(['n50', 'n30']);
+        expect(path.found).toBe(true);
+    });
+
+    test('has no parent in an empty tree', () => {
+        const path = BSTUtils.findSearchPath([], 10);
+        expect(path.visitedIds).toEqual([]);
+        expect(path.parentId).toBeNull();
+    });
+});
+
+describe('BSTUtils deletion', () => {
+    const valuesOf = (nodes: TreeNode[]) => nodes.map(node => node.value).sort((a, b) => a - b);
+
+    test('removes a leaf and clears its parent slot', () => {
+        const nodes = buildTree();
+        const plan = BSTUtils.planDeletion(nodes, 'n20', 'successor')!;
+        expect(plan.removedId).toBe('n20');
+        expect(plan.childId).toBeNull();
+
+        const result = BSTUtils.applyDeletion(nodes, plan);
+        expect(valuesOf(result)).toEqual([30, 40, 50, 70]);
+        expect(result.find(node => node.id === 'n30')!.left).toBeUndefined();
+    });
+
+    test('replaces a two-child node with its in-order successor', () => {
+        const nodes = buildTree();
+        const plan = BSTUtils.planDeletion(nodes, 'n30', 'successor')!;
+        expect(plan.replacementPath).toEqual(['n40']);
+        expect(plan.removedId).toBe('n40');
+
+        const result = BSTUtils.applyDeletion(nodes, plan);
+        const target = result.find(node => node.id === 'n30')!;
+        expect(target.value).toBe(40);
+        expect(target.right).toBeUndefined();
+        expect(target.left!.id).toBe('n20');
+    });
+
+    test('replaces a two-child root with its in-order predecessor', () => {
+        const nodes = buildTree();
+        const plan = BSTUtils.planDeletion(nodes, 'n50', 'predecessor')!;
+        expect(plan.replacementPath).toEqual(['n30', 'n40']);
+
+        const result = BSTUtils.applyDeletion(nodes, plan);
+        expect(result.find(node => node.id === 'n50')!.value).toBe(40);
+        expect(valuesOf(result)).toEqual([20, 30, 40, 70]);
+    });
+});
+
+describe('BSTUtils value ranges', () => {
+    test('bounds a node by all of its ancestors', () => {
+        const range = BSTUtils.getAncestorRange(buildTree(), 'n40');
+        expect(range.min).toEqual({ value: 30, nodeId: 'n30' });
+        expect(range.max).toEqual({ value: 50, nodeId: 'n50' });
+        expect(BSTUtils.formatRange(range)).toBe('(30, 50)');
+    });
+
+    test('bounds an edited node by its subtrees too', () => {
+        const range = BSTUtils.getValueRange(buildTree(), 'n30');
+        expect(BSTUtils.formatRange(range)).toBe('(20, 40)');
+        expect(BSTUtils.findRangeViolation(range, 45)).toEqual({ message: '45 must be less than 40', nodeId: 'n40' });
+        expect(BSTUtils.findRangeViolation(range, 35)).toBeNull();
+    });
+
+    test('bounds empty child slots', () => {
+        expect(BSTUtils.formatRange(BSTUtils.getSlotRange(buildTree(), 'n70', true, true))).toBe('(50, 70)');
+        expect(BSTUtils.formatRange(BSTUtils.getSlotRange(buildTree(), 'n50', true, false))).toBe('(-∞, 20)');
+    });
+});
+
+describe('BSTUtils.checkOrdering', () => {
+    test('accepts a valid BST and records each range', () => {
+        const check = BSTUtils.checkOrdering(buildTree());
+        expect(check.violations).toEqual([]);
+        expect(BSTUtils.formatRange(check.ranges.get('n40')!)).toBe('(30, 50)');
+    });
+
+    test('catches a deep descendant out of order with a distant ancestor', () => {
+        const nodes = buildTree();
+        nodes[4].value = 60; // 40 -> 60 is still greater than its parent 30
+
+        expect(BSTUtils.checkOrdering(nodes).violations).toEqual([{
+            nodeId: 'n40',
+            boundId: 'n50',
+            message: '60 is in the left subtree of 50 but is not less than it'
+        }]);
+    });
+});
@@ -0,0 +1,253 @@
+// Binary Search Tree operations built on top of the generic tree utilities
+import {
+    TreeNode,
+    SearchPath,
+    DeletionPlan,
+    ReplacementStrategy,
+    ValueBound,
+    ValueRange,
+    OrderingCheck,
+    OrderingViolation
+} from './types';
+import TreeUtils from './treeUtils';
+
+const BSTUtils = {
+    // Walk down from the root comparing the value at each node
+    // Records every node visited so the search can be animated step by step
+    findSearchPath: (nodes: TreeNode[], value: number): SearchPath => {
+        const path: SearchPath = { visitedIds: [], found: false, parentId: null, isLeft: false };
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+
+        let current = TreeUtils.findRootNode(nodes);
+        while (current) {
+            path.visitedIds.push(current.id);
+
+            if (value === current.value) {
+                path.found = true;
+                return path;
+            }
+
+            path.parentId = current.id;
+            path.isLeft = value < current.value;
+
+            const childId = path.isLeft ? current.left?.id : current.right?.id;
+            current = childId ? nodeMap.get(childId) ?? null : null;
+        }
+
+        return path;
+    },
+
+    // Work out which node is removed and how the tree is relinked when deleting a node
+    // Leaves and one-child nodes are spliced out directly; a node with two children
+    // takes the value of its in-order successor (or predecessor), which is removed instead
+    planDeletion: (nodes: TreeNode[], nodeId: string, strategy: ReplacementStrategy): DeletionPlan | null => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const target = nodeMap.get(nodeId);
+        if (!target) return null;
+
+        const replacementPath: string[] = [];
+        let removed = target;
+
+        if (target.left && target.right) {
+            // Successor: step right once, then as far left as possible (predecessor mirrors this)
+            const firstStep = strategy === 'successor' ? 'right' : 'left';
+            const nextStep = strategy === 'successor' ? 'left' : 'right';
+
+            let current = nodeMap.get(target[firstStep]!.id);
+            while (current) {
+                replacementPath.push(current.id);
+                removed = current;
+                const nextId = current[nextStep]?.id;
+                current = nextId ? nodeMap.get(nextId) : undefined;
+            }
+        }
+
+        const parentInfo = TreeUtils.findParentNode(nodes, removed.id);
+        const onlyChild = removed.left ?? removed.right;
+
+        return {
+            targetId: target.id,
+            replacementPath,
+            removedId: removed.id,
+            parentId: parentInfo ? parentInfo.parent.id : null,
+            isLeftChild: parentInfo ? parentInfo.isLeftChild : false,
+            childId: onlyChild ? onlyChild.id : null
+        };
+    },
+
+    // Apply a deletion plan, returning a new array of nodes
+    applyDeletion: (nodes: TreeNode[], plan: DeletionPlan): TreeNode[] => {
+        const updatedNodes = nodes.map(node => ({ ...node }));
+        const nodeMap = TreeUtils.buildNodeMap(updatedNodes);
+
+        // Two-child case: the target keeps its place but takes the replacement's value
+        const target = nodeMap.get(plan.targetId);
+        const removed = nodeMap.get(plan.removedId);
+        if (target && removed && target !== removed) {
+            target.value = removed.value;
+        }
+
+        // Splice the removed node's only child (if any) into its place
+        const child = plan.childId ? nodeMap.get(plan.childId) : undefined;
+        const parent = plan.parentId ? nodeMap.get(plan.parentId) : undefined;
+        if (parent) {
+            if (plan.isLeftChild) {
+                parent.left = child;
+            } else {
+                parent.right = child;
+            }
+        }
+
+        return TreeUtils.relinkNodes(updatedNodes.filter(node => node.id !== plan.removedId));
+    },
+
+    // Check every node against the range its ancestors allow, from each root downwards
+    // Unlike the checks made when creating a node, this catches a deep descendant that is out of order
+    // with a distant ancestor, e.g. after dragging or editing
+    checkOrdering: (nodes: TreeNode[]): OrderingCheck => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const ranges = new Map<string, ValueRange>();
+        const violations: OrderingViolation[] = [];
+
+        const visit = (nodeId: string | undefined, range: ValueRange) => {
+            const node = nodeId ? nodeMap.get(nodeId) : undefined;
+            if (!node || ranges.has(node.id)) return;
+            ranges.set(node.id, range);
+
+            if (range.min && node.value <= range.min.value) {
+                violations.push({
+                    nodeId: node.id,
+                    boundId: range.min.nodeId,
+                    message: `${node.value} is in the right subtree of ${range.min.value} but is not greater than it`
+                });
+            } else if (range.max && node.value >= range.max.value) {
+                violations.push({
+                    nodeId: node.id,
+                    boundId: range.max.nodeId,
+                    message: `${node.value} is in the left subtree of ${range.max.value} but is not less than it`
+                });
+            }
+
+            const bound = { value: node.value, nodeId: node.id };
+            visit(node.left?.id, { min: range.min, max: BSTUtils.tighterBound(range.max, bound, 'max') });
+            visit(node.right?.id, { min: BSTUtils.tighterBound(range.min, bound, 'min'), max: range.max });
+        };
+
+        TreeUtils.findRootNodes(nodes).forEach(root => visit(root.id, { min: null, max: null }));
+        return { ranges, violations };
+    },
+
+    // Range of keys allowed at a node by every one of its ancestors
+    // A node in an ancestor's left subtree must be less than it, and in its right subtree greater
+    getAncestorRange: (nodes: TreeNode[], nodeId: string): ValueRange => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const range: ValueRange = { min: null, max: null };
+        const path = TreeUtils.getAncestorPath(nodes, nodeId);
+
+        for (let i = 1; i < path.length; i++) {
+            const ancestor = nodeMap.get(path[i]);
+            if (!ancestor) continue;
+
+            const bound = { value: ancestor.value, nodeId: ancestor.id };
+            if (ancestor.left?.id === path[i - 1]) {
+                range.max = BSTUtils.tighterBound(range.max, bound, 'max');
+            } else {
+                range.min = BSTUtils.tighterBound(range.min, bound, 'min');
+            }
+        }
+
+        return range;
+    },
+
+    // Range of keys a node could take without breaking ordering with its ancestors or its own subtrees
+    getValueRange: (nodes: TreeNode[], nodeId: string): ValueRange => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const node = nodeMap.get(nodeId);
+        const range = BSTUtils.getAncestorRange(nodes, nodeId);
+        if (!node) return range;
+
+        // Everything in the left subtree must stay smaller, everything in the right subtree larger
+        const leftMax = BSTUtils.findExtremeBound(nodes, node.left?.id, 'max');
+        const rightMin = BSTUtils.findExtremeBound(nodes, node.right?.id, 'min');
+        return {
+            min: leftMax ? BSTUtils.tighterBound(range.min, leftMax, 'min') : range.min,
+            max: rightMin ? BSTUtils.tighterBound(range.max, rightMin, 'max') : range.max
+        };
+    },
+
+    // Range of keys allowed for a new node in an empty child slot, or as the new parent of a root
+    getSlotRange: (nodes: TreeNode[], nodeId: string, isLeft: boolean, isChild: boolean): ValueRange => {
+        const node = TreeUtils.findNodeById(nodes, nodeId)?.node;
+        if (!node) return { min: null, max: null };
+
+        if (isChild) {
+            const range = BSTUtils.getAncestorRange(nodes, nodeId);
+            const bound = { value: node.value, nodeId: node.id };
+            return isLeft
+                ? { min: range.min, max: BSTUtils.tighterBound(range.max, bound, 'max') }
+                : { min: BSTUtils.tighterBound(range.min, bound, 'min'), max: range.max };
+        }
+
+        // A new parent on the left takes the subtree as its right child, so must be smaller than all of it
+        return isLeft
+            ? { min: null, max: BSTUtils.findExtremeBound(nodes, nodeId, 'min') }
+            : { min: BSTUtils.findExtremeBound(nodes, nodeId, 'max'), max: null };
+    },
+
+    // Smallest or largest key in a subtree, along with the node holding it
+    findExtremeBound: (nodes: TreeNode[], rootId: string | undefined, extreme: 'min' | 'max'): ValueBound | null => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        let best: ValueBound | null = null;
+        const stack = rootId ? [rootId] : [];
+        const seen = new Set<string>();
+
+        // Every node is checked rather than following one edge, so trees that break ordering still give the true extreme
+        while (stack.length > 0) {
+            const node = nodeMap.get(stack.pop()!);
+            if (!node || seen.has(node.id)) continue;
+            seen.add(node.id);
+
+            const bound = { value: node.value, nodeId: node.id };
+            best = BSTUtils.tighterBound(best, bound, extreme === 'min' ? 'max' : 'min');
+            if (node.left) stack.push(node.left.id);
+            if (node.right) stack.push(node.right.id);
+        }
+
+        return best;
+    },
+
+    // Pick the stricter of two bounds: the larger lower bound or the smaller upper bound
+    tighterBound: (current: ValueBound | null, candidate: ValueBound, side: 'min' | 'max'): ValueBound => {
+        if (!current) return candidate;
+        if (side === 'min') return candidate.value > current.value ? candidate : current;
+        return candidate.value < current.value ? candidate : current;
+    },
+
+    // Explain why a key falls outside a range, or return null if it fits
+    findRangeViolation: (range: ValueRange, value: number): { message: string, nodeId: string } | null => {
+        if (range.min && value <= range.min.value) {
+            return { message: `${value} must be greater than ${range.min.value}`, nodeId: range.min.nodeId };
+        }
+        if (range.max && value >= range.max.value) {
+            return { message: `${value} must be less than ${range.max.value}`, nodeId: range.max.nodeId };
+        }
+        return null;
+    },
+
+    // Write a range as an interval, e.g. (30, 50) or (-∞, 50)
+    formatRange: (range: ValueRange): string => {
+        return `(${range.min ? range.min.value : '-∞'}, ${range.max ? range.max.value : '∞'})`;
+    },
+
+    // Describe a single comparison made while walking a search path
+    describeComparison: (value: number, node: TreeNode): string => {
+        if (value === node.value) {
+            return `Compare ${value} with ${node.value}: found a match`;
+        }
+        return value < node.value
+            ? `Compare ${value} with ${node.value}: ${value} < ${node.value}, go left`
+            : `Compare ${value} with ${node.value}: ${value} > ${node.value}, go right`;
+    }
+};
+
+export default BSTUtils;
@@ -0,0 +1,118 @@
+import CodeUtils from './codeUtils';
+import BSTUtils from './bstUtils';
+import SequenceUtils from './sequenceUtils';
+import TreeUtils from './treeUtils';
+
+// 50(30(20,40),70(,80))
+const nodes = SequenceUtils.buildTree([50, 30, 70, 20, 40, 80], 'bst');
+const idOf = (value: number) => nodes.find(node => node.value === value)!.id;
+const nodeOf = (value: number) => nodes.find(node => node.value === value)!;
+
+describe('CodeUtils.getProgram', () => {
+    test('every line a trace can stop on exists in its function', () => {
+        const lineIds: [Parameters<typeof CodeUtils.getLineIndex>[0], string[]][] = [
+            ['search', ['null', 'go-left', 'go-right', 'found']],
+            ['insert', ['null', 'go-left', 'go-right', 'found']],
+            ['delete-successor', ['no-left', 'no-right', 'splice-left', 'splice-right', 'two-children', 'start', 'walk', 'step', 'copy', 'remove']],
+            ['delete-predecessor', ['two-children', 'start', 'walk', 'step', 'copy', 'remove']],
+            ['rotate-left', ['move-inner', 'link', 'return']],
+            ['rotate-right', ['move-inner', 'link', 'return']]
+        ];
+        lineIds.forEach(([fn, ids]) => {
+            ids.forEach(id => expect(CodeUtils.getLineIndex(fn, id)).toBeGreaterThan(0));
+        });
+    });
+
+    test('mirrors the rotation and the replacement walk', () => {
+        expect(CodeUtils.getProgram('rotate-right')[0].text).toBe('Tree rotateRight(Tree t) {');
+        expect(CodeUtils.getProgram('rotate-right')[CodeUtils.getLineIndex('rotate-right', 'move-inner')].text).toBe('    t->left = newRoot->right;');
+        expect(CodeUtils.getProgram('delete-predecessor')[CodeUtils.getLineIndex('delete-predecessor', 'step')].text).toBe('            pred = pred->right;');
+    });
+});
+
+describe('CodeUtils.traceDescent', () => {
+    test('follows the comparison at each node', () => {
+        expect(CodeUtils.traceDescent('search', 35, nodeOf(50))).toEqual({
+            fn: 'search',
+            lineId: 'go-left',
+            key: 35,
+            variables: [{ name: 't', nodeId: idOf(50) }, { name: 't->left', nodeId: idOf(30) }]
+        });
+        expect(CodeUtils.traceDescent('insert', 35, nodeOf(40)).variables[1]).toEqual({ name: 't->left', nodeId: null });
+        expect(CodeUtils.traceDescent('insert', 40, nodeOf(40)).lineId).toBe('found');
+    });
+
+    test('reaches the NULL case off the bottom of the tree', () => {
+        expect(CodeUtils.traceDescent('insert', 35, null)).toEqual({
+            fn: 'insert',
+            lineId: 'null',
+            key: 35,
+            variables: [{ name: 't', nodeId: null }]
+        });
+    });
+});
+
+describe('CodeUtils.traceDeletion', () => {
+    test('has one trace for each step of a two-child deletion', () => {
+        const plan = BSTUtils.planDeletion(nodes, idOf(50), 'successor')!;
+        const traces = CodeUtils.traceDeletion(nodes, plan, 'successor');
+
+        expect(traces.map(trace => trace.lineId)).toEqual(['two-children', 'start', 'walk', 'copy', 'remove']);
+        expect(traces[1].variables).toEqual([{ name: 't', nodeId: idOf(50) }, { name: 'succ', nodeId: idOf(70) }]);
+        expect(traces[2].variables[2]).toEqual({ name: 'succ->left', nodeId: null });
+    });
+
+    test('walks further down for the predecessor', () => {
+        const plan = BSTUtils.planDeletion(nodes, idOf(50), 'predecessor')!;
+        const traces = CodeUtils.traceDeletion(nodes, plan, 'predecessor');
+
+        expect(traces.map(trace => trace.lineId)).toEqual(['two-children', 'start', 'step', 'walk', 'copy', 'remove']);
+        expect(traces[2].variables[1]).toEqual({ name: 'pred', nodeId: idOf(40) });
+    });
+
+    test('splices out a node with one child or none', () => {
+        const onlyRight = CodeUtils.traceDeletion(nodes, BSTUtils.planDeletion(nodes, idOf(70), 'successor')!, 'successor');
+        expect(onlyRight.map(trace => trace.lineId)).toEqual(['no-left', 'splice-right']);
+        expect(onlyRight[1].variables[1]).toEqual({ name: 'newRoot', nodeId: idOf(80) });
+
+        const leaf = CodeUtils.traceDeletion(nodes, BSTUtils.planDeletion(nodes, idOf(20), 'successor')!, 'successor');
+        expect(leaf[1].variables[1]).toEqual({ name: 'newRoot', nodeId: null });
+    });
+});
+
+describe('CodeUtils.traceRotation', () => {
+    test('points t, newRoot and the moving subtree at their nodes', () => {
+        const trace = CodeUtils.traceRotation(nodes, idOf(50), 'right', 'attach');
+        expect(trace).toEqual({
+            fn: 'rotate-right',
+            lineId: 'link',
+            variables: [
+                { name: 't', nodeId: idOf(50) },
+                { name: 'newRoot', nodeId: idOf(30) },
+                { name: 't->left', nodeId: idOf(40) },
+                { name: 'newRoot->right', nodeId: idOf(50) }
+            ]
+        });
+        expect(CodeUtils.traceRotation(nodes, idOf(50), 'right', 'detach')?.lineId).toBe('move-inner');
+    });
+
+    test('returns null without a child to rotate up', () => {
+        expect(CodeUtils.traceRotation(nodes, idOf(20), 'left', 'detach')).toBeNull();
+    });
+});
+
+describe('CodeUtils.groupByNode and formatVariable', () => {
+    test('labels each node with every pointer to it', () => {
+        const trace = CodeUtils.traceRotation(nodes, idOf(50), 'right', 'attach')!;
+        const names = CodeUtils.groupByNode(trace.variables);
+        expect(names.get(idOf(50))).toEqual(['t', 'newRoot->right']);
+        expect(names.get(idOf(30))).toEqual(['newRoot']);
+    });
+
+    test('prints keys, NULL and freed nodes', () => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        expect(CodeUtils.formatVariable({ name: 't', nodeId: idOf(30) }, nodeMap)).toBe('t = 30');
+        expect(CodeUtils.formatVariable({ name: 't->left', nodeId: null }, nodeMap)).toBe('t->left = NULL');
+        expect(CodeUtils.formatVariable({ name: 't', nodeId: 'deleted' }, nodeMap)).toBe('t = (freed)');
+    });
+});
@@ -0,0 +1,201 @@
+// The C code behind each animated operation, written the way the course labs write it,
+// and the line and pointers to show at each step of the animation
+import {
+    TreeNode,
+    DeletionPlan,
+    ReplacementStrategy,
+    RotationDirection,
+    RotationPhaseName,
+    CodeFunction,
+    CodeLine,
+    CodeTrace,
+    CodeVariable
+} from './types';
+import TreeUtils from './treeUtils';
+
+const line = (text: string, id?: string): CodeLine => (id ? { text, id } : { text });
+
+// TreeDelete with a two-child case that takes the successor (the smallest key on the right)
+// or the predecessor (the largest key on the left)
+const deleteProgram = (strategy: ReplacementStrategy): CodeLine[] => {
+    const [first, next, name] = strategy === 'successor' ? ['right', 'left', 'succ'] : ['left', 'right', 'pred'];
+    return [
+        line('Tree TreeDelete(Tree t, int key) {'),
+        line('    if (t == NULL) {'),
+        line('        return NULL;'),
+        line('    } else if (key < t->key) {'),
+        line('        t->left = TreeDelete(t->left, key);'),
+        line('    } else if (key > t->key) {'),
+        line('        t->right = TreeDelete(t->right, key);'),
+        line('    } else if (t->left == NULL) {', 'no-left'),
+        line('        Tree newRoot = t->right;', 'splice-right'),
+        line('        free(t);'),
+        line('        return newRoot;'),
+        line('    } else if (t->right == NULL) {', 'no-right'),
+        line('        Tree newRoot = t->left;', 'splice-left'),
+        line('        free(t);'),
+        line('        return newRoot;'),
+        line('    } else {', 'two-children'),
+        line(`        Tree ${name} = t->${first};`, 'start'),
+        line(`        while (${name}->${next} != NULL) {`, 'walk'),
+        line(`            ${name} = ${name}->${next};`, 'step'),
+        line('        }'),
+        line(`        t->key = ${name}->key;`, 'copy'),
+        line(`        t->${first} = TreeDelete(t->${first}, ${name}->key);`, 'remove'),
+        line('    }'),
+        line('    return t;'),
+        line('}')
+    ];
+};
+
+// rotateLeft, or rotateRight with every left and right swapped
+const rotateProgram = (direction: RotationDirection): CodeLine[] => {
+    const [childSide, innerSide] = direction === 'left' ? ['right', 'left'] : ['left', 'right'];
+    return [
+        line(`Tree rotate${direction === 'left' ? 'Left' : 'Right'}(Tree t) {`),
+        line(`    if (t == NULL || t->${childSide} == NULL) {`),
+        line('        return t;'),
+        line('    }'),
+        line(`    Tree newRoot = t->${childSide};`),
+        line(`    t->${childSide} = newRoot->${innerSide};`, 'move-inner'),
+        line(`    newRoot->${innerSide} = t;`, 'link'),
+        line('    return newRoot;', 'return'),
+        line('}')
+    ];
+};
+
+const programs: Record<CodeFunction, CodeLine[]> = {
+    'search': [
+        line('bool TreeSearch(Tree t, int key) {'),
+        line('    if (t == NULL) {'),
+        line('        return false;', 'null'),
+        line('    } else if (key < t->key) {'),
+        line('        return TreeSearch(t->left, key);', 'go-left'),
+        line('    } else if (key > t->key) {'),
+        line('        return TreeSearch(t->right, key);', 'go-right'),
+        line('    } else {'),
+        line('        return true;', 'found'),
+        line('    }'),
+        line('}')
+    ],
+    'insert': [
+        line('Tree TreeInsert(Tree t, int key) {'),
+        line('    if (t == NULL) {'),
+        line('        return newNode(key);', 'null'),
+        line('    } else if (key < t->key) {'),
+        line('        t->left = TreeInsert(t->left, key);', 'go-left'),
+        line('    } else if (key > t->key) {'),
+        line('        t->right = TreeInsert(t->right, key);', 'go-right'),
+        line('    }'),
+        line('    return t;', 'found'),
+        line('}')
+    ],
+    'delete-successor': deleteProgram('successor'),
+    'delete-predecessor': deleteProgram('predecessor'),
+    'rotate-left': rotateProgram('left'),
+    'rotate-right': rotateProgram('right')
+};
+
+const CodeUtils = {
+    getProgram: (fn: CodeFunction): CodeLine[] => programs[fn],
+
+    // Index of a named line in a function, or -1 if it has no such line
+    getLineIndex: (fn: CodeFunction, lineId: string): number => {
+        return programs[fn].findIndex(codeLine => codeLine.id === lineId);
+    },
+
+    // Line a recursive search or insert runs at node t, or once it has run off the tree (null)
+    traceDescent: (fn: 'search' | 'insert', key: number, node: TreeNode | null): CodeTrace => {
+        if (!node) {
+            return { fn, lineId: 'null', key, variables: [{ name: 't', nodeId: null }] };
+        }
+        const t = { name: 't', nodeId: node.id };
+        if (key === node.value) {
+            return { fn, lineId: 'found', key, variables: [t] };
+        }
+        const side = key < node.value ? 'left' : 'right';
+        return { fn, lineId: `go-${side}`, key, variables: [t, { name: `t->${side}`, nodeId: node[side]?.id ?? null }] };
+    },
+
+    // One trace per step of an animated deletion: the branch TreeDelete takes at the target,
+    // then (for two children) the walk to the replacement, the copy and the recursive delete,
+    // or (otherwise) the child spliced up in the target's place
+    traceDeletion: (nodes: TreeNode[], plan: DeletionPlan, strategy: ReplacementStrategy): CodeTrace[] => {
+        const target = TreeUtils.buildNodeMap(nodes).get(plan.targetId);
+        if (!target) return [];
+
+        const fn: CodeFunction = strategy === 'successor' ? 'delete-successor' : 'delete-predecessor';
+        const trace = (lineId: string, variables: CodeVariable[]): CodeTrace => ({ fn, lineId, key: target.value, variables });
+        const t = { name: 't', nodeId: target.id };
+
+        if (plan.replacementPath.length === 0) {
+            // t->left == NULL is tested first, so a leaf goes down the right-hand branch
+            return target.left
+                ? [
+                    trace('no-right', [t, { name: 't->right', nodeId: null }]),
+                    trace('splice-left', [t, { name: 'newRoot', nodeId: plan.childId }])
+                ]
+                : [
+                    trace('no-left', [t, { name: 't->left', nodeId: null }]),
+                    trace('splice-right', [t, { name: 'newRoot', nodeId: plan.childId }])
+                ];
+        }
+
+        const [name, next] = strategy === 'successor' ? ['succ', 'left'] : ['pred', 'right'];
+        const pointingAt = (nodeId: string) => [t, { name, nodeId }];
+        return [
+            trace('two-children', [t]),
+            ...plan.replacementPath.map((nodeId, index) => trace(index === 0 ? 'start' : 'step', pointingAt(nodeId))),
+            trace('walk', [...pointingAt(plan.removedId), { name: `${name}->${next}`, nodeId: null }]),
+            trace('copy', pointingAt(plan.removedId)),
+            trace('remove', pointingAt(plan.removedId))
+        ];
+    },
+
+    // Line a rotation is on during each playback phase, with the pointers as they are once it has run
+    // The playback detaches t from newRoot before attaching t below it, and swings the inner
+    // grandchild across last, when newRoot->left (or right) is overwritten with t
+    traceRotation: (
+        nodes: TreeNode[],
+        nodeId: string,
+        direction: RotationDirection,
+        phase: RotationPhaseName | 'return'
+    ): CodeTrace | null => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const [childSide, innerSide] = direction === 'left' ? ['right', 'left'] as const : ['left', 'right'] as const;
+        const node = nodeMap.get(nodeId);
+        const child = node?.[childSide] ? nodeMap.get(node[childSide]!.id) : undefined;
+        if (!node || !child) return null;
+
+        const fn: CodeFunction = direction === 'left' ? 'rotate-left' : 'rotate-right';
+        const t = { name: 't', nodeId: node.id };
+        const newRoot = { name: 'newRoot', nodeId: child.id };
+        const inner = { name: `t->${childSide}`, nodeId: child[innerSide]?.id ?? null };
+
+        if (phase === 'detach') {
+            return { fn, lineId: 'move-inner', variables: [t, newRoot, inner] };
+        }
+        if (phase === 'return') {
+            return { fn, lineId: 'return', variables: [t, newRoot] };
+        }
+        return { fn, lineId: 'link', variables: [t, newRoot, inner, { name: `newRoot->${innerSide}`, nodeId: node.id }] };
+    },
+
+    // The pointers naming each node, for labelling the nodes on the canvas
+    groupByNode: (variables: CodeVariable[]): Map<string, string[]> => {
+        const names = new Map<string, string[]>();
+        variables.forEach(({ name, nodeId }) => {
+            if (nodeId) names.set(nodeId, [...(names.get(nodeId) ?? []), name]);
+        });
+        return names;
+    },
+
+    // "t = 30", "t->left = NULL", or "t = (freed)" once a deleted node has gone
+    formatVariable: (variable: CodeVariable, nodeMap: Map<string, TreeNode>): string => {
+        if (!variable.nodeId) return `${variable.name} = NULL`;
+        const node = nodeMap.get(variable.nodeId);
+        return `${variable.name} = ${node ? node.value : '(freed)'}`;
+    }
+};
+
+export default CodeUtils;
@@ -1,16 +1,27 @@
 // Component definitions for TreeVisualizer
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import * as d3 from 'd3';
 import {
     NodeProps,
     LinkProps,
     RotationControlsProps,
+    NodeEditorProps,
     TreeNode,
     AnimatedLinkData,
     LinkData,
     Position
 } from './types';
 
+// How long a touch or pen must be held on a node to count as a long press, and how far it may wander
+const longPressDelay = 600;
+const longPressTolerance = 8;
+
+// Fill colours for red-black nodes
+const nodeColorFills = {
+    red: '#E53935',
+    black: '#212121'
+};
+
 // Utility functions for rendering (kept locally as requested)
 export const RenderUtils = {
     // Create a tree node element
@@ -21,15 +32,17 @@ export const RenderUtils = {
             fill?: string,
             stroke?: string,
             opacity?: number,
-            strokeDasharray?: string
+            strokeDasharray?: string,
+            label?: string
         } = {}
     ) => {
         const {
             isPreview = false,
-            fill = isPreview ? '#f0f0f0' : '#fff',
+            fill = node.color ? nodeColorFills[node.color] : isPreview ? '#f0f0f0' : '#fff',
             stroke = isPreview ? '#999' : '#000',
             opacity = isPreview ? 0.6 : 1,
-            strokeDasharray = isPreview ? '5,5' : undefined
+            strokeDasharray = isPreview ? '5,5' : undefined,
+            label = `${node.value}`
         } = options;
 
         return (
@@ -49,9 +62,9 @@ export const RenderUtils = {
                     textAnchor="middle"
                     dy="0.3em"
                     fontSize="12px"
-                    fill={isPreview ? '#999' : '#000'}
+                    fill={node.color ? '#fff' : isPreview ? '#999' : '#000'}
                 >
-                    {node.value}
+                    {label}
                 </text>
             </g>
         );
@@ -103,8 +116,54 @@ export const RenderUtils = {
 };
 
 // More declarative component for rendering tree nodes
-export const Node: React.FC<NodeProps> = ({ node, onDragStart, onDrag, onDragEnd, onMouseEnter, onMouseLeave, onContextMenu, isHighlighted }) => {
+export const Node: React.FC<NodeProps> = ({
+    node,
+    onDragStart,
+    onDrag,
+    onDragEnd,
+    onMouseEnter,
+    onMouseLeave,
+    onContextMenu,
+    onDoubleClick,
+    onLongPress,
+    isHighlighted,
+    highlightColor,
+    annotation,
+    annotationColor = '#666'
+}) => {
     const nodeRef = useRef<SVGGElement>(null);
+    const longPressRef = useRef<{ timer: number, x: number, y: number } | null>(null);
+
+    const cancelLongPress = () => {
+        if (longPressRef.current) {
+            window.clearTimeout(longPressRef.current.timer);
+            longPressRef.current = null;
+        }
+    };
+
+    // Start timing a long press; moving far enough turns it into a drag instead
+    const handlePointerDown = (event: React.PointerEvent) => {
+        if (!onLongPress || event.pointerType === 'mouse') return;
+
+        cancelLongPress();
+        const timer = window.setTimeout(() => {
+            longPressRef.current = null;
+            onLongPress(node);
+        }, longPressDelay);
+        longPressRef.current = { timer, x: event.clientX, y: event.clientY };
+    };
+
+    const handlePointerMove = (event: React.PointerEvent) => {
+        const press = longPressRef.current;
+        if (press && Math.hypot(event.clientX - press.x, event.clientY - press.y) > longPressTolerance) {
+            cancelLongPress();
+        }
+    };
+
+    // Drop a pending long press if the node goes away
+    useEffect(() => () => {
+        if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+    }, []);
 
     useEffect(() => {
         if (!nodeRef.current) return;
@@ -124,23 +183,90 @@ export const Node: React.FC<NodeProps> = ({ node, onDragStart, onDrag, onDragEnd
             transform={`translate(${node.x},${node.y})`}
             onMouseEnter={() => onMouseEnter(node.id)}
             onMouseLeave={onMouseLeave}
-            onContextMenu={(e) => onContextMenu(e, node)}
+            onContextMenu={(e) => {
+                // Some browsers raise a context menu for a long press too; only act on it once
+                cancelLongPress();
+                onContextMenu(e, node);
+            }}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={cancelLongPress}
+            onPointerCancel={cancelLongPress}
+            onDoubleClick={onDoubleClick ? (e) => {
+                e.stopPropagation();
+                onDoubleClick(node);
+            } : undefined}
         >
-            <circle r={20} fill="#fff" stroke="#000" strokeWidth={2} />
+            <circle
+                r={20}
+                fill="#fff"
+                stroke={isHighlighted && highlightColor ? highlightColor : '#000'}
+                strokeWidth={2}
+                // Inline style so red-black colours win over the hover highlight in the stylesheet
+                style={node.color ? { fill: nodeColorFills[node.color] } : undefined}
+            />
             <text
                 textAnchor="middle"
                 dy="0.3em"
                 fontSize="12px"
+                fill={node.color ? '#fff' : '#000'}
             >
                 {node.value}
             </text>
+            {annotation && (
+                <text
+                    className="node-annotation"
+                    textAnchor="middle"
+                    y={34}
+                    fontSize="10px"
+                    fill={annotationColor}
+                >
+                    {annotation}
+                </text>
+            )}
         </g>
     );
 };
 
+// Text box drawn over a node for editing its key in place
+// Enter commits, Escape or clicking away cancels
+export const NodeEditor: React.FC<NodeEditorProps> = ({ node, error, onCommit, onCancel }) => {
+    const [text, setText] = useState<string>(`${node.value}`);
+
+    return (
+        <foreignObject
+            x={node.x - 80}
+            y={node.y - 14}
+            width={160}
+            height={error ? 72 : 28}
+            onClick={(e) => e.stopPropagation()} // Keep clicks from creating nodes underneath
+            onMouseDown={(e) => e.stopPropagation()}
+        >
+            <div className="flex flex-col items-center">
+                <input
+                    autoFocus
+                    type="number"
+                    className={`w-16 px-1 text-center text-xs border rounded ${error ? 'border-red-500' : 'border-blue-500'}`}
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') onCommit(text);
+                        if (e.key === 'Escape') onCancel();
+                    }}
+                    onBlur={onCancel}
+                />
+                {error && (
+                    <div className="mt-1 px-1 text-xs text-center text-red-700 bg-red-50 border border-red-200 rounded">
+                        {error}
+                    </div>
+                )}
+            </div>
+        </foreignObject>
+    );
+};
+
 // More declarative component for rendering links between nodes
-export const Link: React.FC<LinkProps> = ({ link, nodeAnimationComplete = false }) => {
-    console.log('Link component rendered, nodeAnimationComplete:', nodeAnimationComplete);
+export const Link: React.FC<LinkProps> = ({ link, nodeAnimationComplete = false, isHighlighted = false, highlightColor = '#FF9800' }) => {
     // Check if it's an animated link
     if ('progress' in link) {
         // Handle animation based on type
@@ -210,6 +336,9 @@ export const Link: React.FC<LinkProps> = ({ link, nodeAnimationComplete = false
         normalLink.target,
         {
             isPreview: normalLink.type === 'preview',
+            stroke: isHighlighted ? highlightColor : undefined, // Orange for links on a search path
+            strokeWidth: isHighlighted ? 4 : undefined,
+            opacity: isHighlighted ? 1 : undefined,
             id: normalLink.id,
             sourceId: normalLink.source.id,
             targetId: normalLink.target.id
@@ -218,7 +347,7 @@ export const Link: React.FC<LinkProps> = ({ link, nodeAnimationComplete = false
 };
 
 // Component for rotation controls
-export const RotationControls: React.FC<RotationControlsProps> = ({ node, onRotateLeft, onRotateRight }) => {
+export const RotationControls: React.FC<RotationControlsProps> = ({ node, onRotateLeft, onRotateRight, onRotateLeftRight, onRotateRightLeft }) => {
     return (
         <g className="rotation-indicator">
             <circle
@@ -260,6 +389,54 @@ export const RotationControls: React.FC<RotationControlsProps> = ({ node, onRota
             >
                 ⟳
             </text>
+
+            {/* Double rotations sit below the single ones, 30px out like them so every button stays within the 40px hover radius */}
+            {onRotateLeftRight && (
+                <>
+                    <circle
+                        cx={-21}
+                        cy={21}
+                        r={10}
+                        fill="#e0e0e0"
+                        stroke="#000"
+                        strokeWidth={1}
+                        onClick={() => onRotateLeftRight(node.id)}
+                    />
+                    <text
+                        x={-21}
+                        y={21}
+                        textAnchor="middle"
+                        dy="0.3em"
+                        fontSize="9px"
+                        pointerEvents="none"
+                    >
+                        LR
+                    </text>
+                </>
+            )}
+            {onRotateRightLeft && (
+                <>
+                    <circle
+                        cx={21}
+                        cy={21}
+                        r={10}
+                        fill="#e0e0e0"
+                        stroke="#000"
+                        strokeWidth={1}
+                        onClick={() => onRotateRightLeft(node.id)}
+                    />
+                    <text
+                        x={21}
+                        y={21}
+                        textAnchor="middle"
+                        dy="0.3em"
+                        fontSize="9px"
+                        pointerEvents="none"
+                    >
+                        RL
+                    </text>
+                </>
+            )}
         </g>
     );
 }; 
\ No newline at end of file
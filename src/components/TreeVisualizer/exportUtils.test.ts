@@ -0,0 +1,63 @@
+import ExportUtils from './exportUtils';
+import SequenceUtils from './sequenceUtils';
+import RedBlackUtils from './redBlackUtils';
+
+// 50(30(20,),70(,80))
+const nodes = SequenceUtils.buildTree([50, 30, 70, 20, 80], 'bst');
+
+describe('ExportUtils.toForest', () => {
+    test('nests the keys and keeps a lone child on its side', () => {
+        expect(ExportUtils.toForest(nodes)).toBe([
+            '% Needs \\usepackage{forest} in the preamble',
+            '',
+            '\\begin{forest}',
+            '    for tree={circle, draw, minimum size=2em, inner sep=1pt, s sep=1em}',
+            '    [50',
+            '        [30',
+            '            [20]',
+            '            [, phantom]',
+            '        ]',
+            '        [70',
+            '            [, phantom]',
+            '            [80]',
+            '        ]',
+            '    ]',
+            '\\end{forest}',
+            ''
+        ].join('\n'));
+    });
+
+    test('fills red-black nodes', () => {
+        const colored = RedBlackUtils.colorUncoloredNodes(SequenceUtils.buildTree([50], 'bst'), 'black');
+        expect(ExportUtils.toForest(colored)).toContain('    [50, fill=black, text=white]');
+    });
+});
+
+describe('ExportUtils.toDot', () => {
+    test('names nodes in pre-order and links them left to right', () => {
+        expect(ExportUtils.toDot(nodes)).toBe([
+            'digraph tree {',
+            '    graph [ordering=out];',
+            '    node [shape=circle];',
+            '    n0 [label="50"];',
+            '    n0 -> n1;',
+            '    n0 -> n3;',
+            '    n1 [label="30"];',
+            '    n1 -> n2;',
+            '    n1_right [label="", style=invis];',
+            '    n1 -> n1_right [style=invis];',
+            '    n2 [label="20"];',
+            '    n3 [label="70"];',
+            '    n3_left [label="", style=invis];',
+            '    n3 -> n3_left [style=invis];',
+            '    n3 -> n4;',
+            '    n4 [label="80"];',
+            '}',
+            ''
+        ].join('\n'));
+    });
+
+    test('writes an empty graph for an empty tree', () => {
+        expect(ExportUtils.toDot([])).toBe('digraph tree {\n    graph [ordering=out];\n    node [shape=circle];\n}\n');
+    });
+});
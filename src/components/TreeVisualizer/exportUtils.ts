@@ -0,0 +1,161 @@
+// Exporting the tree for worksheets and exam solutions: a standalone SVG or PNG of the canvas,
+// and LaTeX (TikZ forest) or Graphviz DOT source generated from the tree itself
+import { TreeNode, Bounds } from './types';
+import TreeUtils from './treeUtils';
+
+// Properties copied from the page's stylesheets onto each element, so the SVG looks the same on its own
+const inlinedProperties = [
+    'fill',
+    'fill-opacity',
+    'stroke',
+    'stroke-width',
+    'stroke-dasharray',
+    'stroke-linecap',
+    'opacity',
+    'font-family',
+    'font-size',
+    'font-weight',
+    'font-style',
+    'text-anchor'
+];
+
+// Interaction overlays that are left out of exported pictures
+const overlaySelector = '.preview-node, .preview-link, .selected-slots, .rotation-indicator, .rotation-roles, .code-labels, .focus-ring, foreignObject';
+
+// Visit each tree (main root first) in pre-order, once per node even if the links loop
+const walkPreOrder = (nodes: TreeNode[], visit: (node: TreeNode, depth: number) => void) => {
+    const nodeMap = TreeUtils.buildNodeMap(nodes);
+    const seen = new Set<string>();
+    const walk = (nodeId: string | undefined, depth: number) => {
+        const node = nodeId ? nodeMap.get(nodeId) : undefined;
+        if (!node || seen.has(node.id)) return;
+        seen.add(node.id);
+        visit(node, depth);
+        walk(node.left?.id, depth + 1);
+        walk(node.right?.id, depth + 1);
+    };
+    TreeUtils.findRootNodes(nodes).forEach(root => walk(root.id, 0));
+};
+
+const ExportUtils = {
+    // A LaTeX forest environment per tree; a missing child is a phantom so a lone child keeps its side
+    // Red-black colours are kept as fills
+    toForest: (nodes: TreeNode[]): string => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const seen = new Set<string>();
+
+        const writeNode = (node: TreeNode, indent: string): string[] => {
+            seen.add(node.id);
+            const options = node.color === 'red' ? ', fill=red!70, text=white'
+                : node.color === 'black' ? ', fill=black, text=white'
+                    : '';
+            const children = [node.left?.id, node.right?.id].map(childId => childId ? nodeMap.get(childId) : undefined);
+            if (children.every(child => !child)) return [`${indent}[${node.value}${options}]`];
+
+            return [
+                `${indent}[${node.value}${options}`,
+                ...children.flatMap(child => child && !seen.has(child.id)
+                    ? writeNode(child, indent + '    ')
+                    : [`${indent}    [, phantom]`]),
+                `${indent}]`
+            ];
+        };
+
+        const trees = TreeUtils.findRootNodes(nodes).map(root => [
+            '\\begin{forest}',
+            '    for tree={circle, draw, minimum size=2em, inner sep=1pt, s sep=1em}',
+            ...writeNode(root, '    '),
+            '\\end{forest}'
+        ].join('\n'));
+
+        return ['% Needs \\usepackage{forest} in the preamble', ...(trees.length > 0 ? trees : ['% The tree is empty'])].join('\n\n') + '\n';
+    },
+
+    // A Graphviz digraph; ordering=out and an invisible placeholder for a missing child keep left and right apart
+    toDot: (nodes: TreeNode[]): string => {
+        const names = new Map<string, string>();
+        walkPreOrder(nodes, node => names.set(node.id, `n${names.size}`));
+
+        const lines: string[] = [];
+        walkPreOrder(nodes, node => {
+            const name = names.get(node.id)!;
+            const fill = node.color ? `, style=filled, fillcolor=${node.color}, fontcolor=white` : '';
+            lines.push(`    ${name} [label="${node.value}"${fill}];`);
+
+            const children = [node.left?.id, node.right?.id].map(childId => childId ? names.get(childId) : undefined);
+            if (children.every(child => !child)) return;
+            children.forEach((child, index) => {
+                if (child) {
+                    lines.push(`    ${name} -> ${child};`);
+                } else {
+                    const placeholder = `${name}_${index === 0 ? 'left' : 'right'}`;
+                    lines.push(`    ${placeholder} [label="", style=invis];`);
+                    lines.push(`    ${name} -> ${placeholder} [style=invis];`);
+                }
+            });
+        });
+
+        return ['digraph tree {', '    graph [ordering=out];', '    node [shape=circle];', ...lines, '}'].join('\n') + '\n';
+    },
+
+    // Copy of the canvas as a standalone SVG document framing the whole tree, whatever the pan and zoom,
+    // with the page's styles inlined and the interaction overlays removed
+    toStandaloneSvg: (svg: SVGSVGElement, bounds: Bounds, padding: number = 50): { text: string, width: number, height: number } => {
+        const clone = svg.cloneNode(true) as SVGSVGElement;
+        const originals = Array.from(svg.querySelectorAll('*'));
+        const copies = Array.from(clone.querySelectorAll('*'));
+        originals.forEach((original, index) => {
+            const computed = window.getComputedStyle(original);
+            const style = inlinedProperties
+                .map(property => [property, computed.getPropertyValue(property)])
+                .filter(([, value]) => value !== '')
+                .map(([property, value]) => `${property}:${value}`)
+                .join(';');
+            copies[index].setAttribute('style', style);
+        });
+        clone.querySelectorAll(overlaySelector).forEach(element => element.remove());
+
+        const width = Math.ceil(bounds.maxX - bounds.minX + 2 * padding);
+        const height = Math.ceil(bounds.maxY - bounds.minY + 2 * padding);
+        clone.querySelector('.view')?.setAttribute('transform', `translate(${padding - bounds.minX},${padding - bounds.minY})`);
+        ['class', 'style', 'tabindex', 'role', 'aria-label', 'aria-describedby'].forEach(name => clone.removeAttribute(name));
+        clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+        clone.setAttribute('width', `${width}`);
+        clone.setAttribute('height', `${height}`);
+        clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+        return { text: new XMLSerializer().serializeToString(clone), width, height };
+    },
+
+    // Draw an SVG document onto a canvas at a scale and encode it as a PNG, all in the browser
+    renderPng: (svgText: string, width: number, height: number, scale: number): Promise<Blob> => {
+        return new Promise((resolve, reject) => {
+            const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }));
+            const image = new Image();
+            image.onload = () => {
+                URL.revokeObjectURL(url);
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.ceil(width * scale);
+                canvas.height = Math.ceil(height * scale);
+                const context = canvas.getContext('2d');
+                if (!context) {
+                    reject(new Error('this browser cannot draw on a canvas'));
+                    return;
+                }
+
+                context.fillStyle = '#fff';
+                context.fillRect(0, 0, canvas.width, canvas.height);
+                context.scale(scale, scale);
+                context.drawImage(image, 0, 0, width, height);
+                canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('the PNG could not be encoded')), 'image/png');
+            };
+            image.onerror = () => {
+                URL.revokeObjectURL(url);
+                reject(new Error('the SVG could not be drawn'));
+            };
+            image.src = url;
+        });
+    }
+};
+
+export default ExportUtils;
@@ -0,0 +1,38 @@
+import HistoryUtils from './historyUtils';
+import { HistoryEntry, TreeNode } from './types';
+
+const tree: TreeNode[] = [{ id: 'n50', value: 50, x: 0, y: 0 }];
+const entry = (label: string): HistoryEntry => ({ label, before: tree, after: tree });
+
+describe('HistoryUtils.push', () => {
+    test('adds to the undo stack and clears the redo stack', () => {
+        const history = HistoryUtils.push({ undo: [entry('Insert 20')], redo: [entry('Insert 40')] }, entry('Insert 60'), 100);
+        expect(history.undo.map(item => item.label)).toEqual(['Insert 20', 'Insert 60']);
+        expect(history.redo).toEqual([]);
+    });
+
+    test('drops the oldest edits beyond the limit', () => {
+        const history = ['a', 'b', 'c', 'd'].reduce((working, label) => HistoryUtils.push(working, entry(label), 3), HistoryUtils.empty());
+        expect(history.undo.map(item => item.label)).toEqual(['b', 'c', 'd']);
+    });
+});
+
+describe('HistoryUtils.undo and redo', () => {
+    const history = ['a', 'b'].reduce((working, label) => HistoryUtils.push(working, entry(label), 100), HistoryUtils.empty());
+
+    test('move the latest edit between the stacks', () => {
+        const undone = HistoryUtils.undo(history)!;
+        expect(undone.entry.label).toBe('b');
+        expect(undone.history.undo.map(item => item.label)).toEqual(['a']);
+        expect(undone.history.redo.map(item => item.label)).toEqual(['b']);
+
+        const redone = HistoryUtils.redo(undone.history)!;
+        expect(redone.entry.label).toBe('b');
+        expect(redone.history).toEqual(history);
+    });
+
+    test('return null with nothing to undo or redo', () => {
+        expect(HistoryUtils.undo(HistoryUtils.empty())).toBeNull();
+        expect(HistoryUtils.redo(history)).toBeNull();
+    });
+});
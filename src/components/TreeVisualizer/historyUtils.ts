@@ -0,0 +1,29 @@
+// Undo and redo: two stacks of edits, kept apart from the component so the rules can be tested
+import { HistoryEntry, HistoryState } from './types';
+
+const HistoryUtils = {
+    empty: (): HistoryState => ({ undo: [], redo: [] }),
+
+    // Record a new edit; anything undone before it can no longer be redone,
+    // and the oldest edits are dropped beyond the limit
+    push: (history: HistoryState, entry: HistoryEntry, limit: number): HistoryState => ({
+        undo: [...history.undo, entry].slice(-limit),
+        redo: []
+    }),
+
+    // Take the last edit off the undo stack and onto the redo stack, or null if there is none
+    undo: (history: HistoryState): { history: HistoryState, entry: HistoryEntry } | null => {
+        const entry = history.undo[history.undo.length - 1];
+        if (!entry) return null;
+        return { history: { undo: history.undo.slice(0, -1), redo: [...history.redo, entry] }, entry };
+    },
+
+    // Take the last undone edit back onto the undo stack, or null if there is none
+    redo: (history: HistoryState): { history: HistoryState, entry: HistoryEntry } | null => {
+        const entry = history.redo[history.redo.length - 1];
+        if (!entry) return null;
+        return { history: { undo: [...history.undo, entry], redo: history.redo.slice(0, -1) }, entry };
+    }
+};
+
+export default HistoryUtils;
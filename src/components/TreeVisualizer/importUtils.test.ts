@@ -0,0 +1,142 @@
+import ImportUtils from './importUtils';
+import ExportUtils from './exportUtils';
+import AsciiUtils from './asciiUtils';
+import SequenceUtils from './sequenceUtils';
+import { TreeNode } from './types';
+
+// Bracket notation of a tree, for comparing shapes
+const shapeOf = (nodes: TreeNode[]): string => {
+    const nodeMap = new Map(nodes.map(node => [node.id, node]));
+    const write = (nodeId: string | undefined): string => {
+        const node = nodeId ? nodeMap.get(nodeId) : undefined;
+        if (!node) return '';
+        return node.left || node.right ? `${node.value}(${write(node.left?.id)},${write(node.right?.id)})` : `${node.value}`;
+    };
+    return write(nodes[0]?.id);
+};
+
+const parse = (text: string) => {
+    const result = ImportUtils.parseTreeText(text);
+    if (!result.ok) throw new Error(result.error);
+    return result;
+};
+
+describe('ImportUtils.parseTreeText with bracket notation', () => {
+    test('places children by position', () => {
+        const result = parse('50(30(20,40),70(,80))');
+        expect(result.format).toBe('bracket');
+        expect(shapeOf(result.nodes)).toBe('50(30(20,40),70(,80))');
+    });
+
+    test('places a lone child by its key', () => {
+        expect(shapeOf(parse('50 ( 30 (40) , 70 )').nodes)).toBe('50(30(,40),70)');
+    });
+
+    test('points at the offending token', () => {
+        const result = ImportUtils.parseTreeText('50(30(20 40),70)');
+        expect(result).toEqual({ ok: false, error: 'Column 10: Expected "," or ")", found "40"', start: 9, end: 11 });
+    });
+
+    test('rejects keys out of BST order', () => {
+        expect(ImportUtils.parseTreeText('50(60,70)')).toEqual({
+            ok: false,
+            error: 'Column 4: 60 is in the left subtree of 50 but is not less than it',
+            start: 3,
+            end: 5
+        });
+    });
+
+    test('rejects repeated keys and trailing text', () => {
+        expect(ImportUtils.parseTreeText('50(30,30)')).toMatchObject({ ok: false, start: 6, end: 8 });
+        expect(ImportUtils.parseTreeText('50(30,70))')).toMatchObject({ ok: false, error: 'Column 10: Unexpected ")" after the end of the tree' });
+    });
+});
+
+describe('ImportUtils.parseTreeText with DOT', () => {
+    test('classifies children by key comparison', () => {
+        const result = parse('digraph G {\n  50 -> 30; 50 -> 70\n  30 -> 40 // comment\n}');
+        expect(result.format).toBe('dot');
+        expect(shapeOf(result.nodes)).toBe('50(30(,40),70)');
+    });
+
+    test('uses node labels and L/R edge labels', () => {
+        const dot = 'digraph { a [label="50"]; b [label=30]; c [label="20"]; a -> b [label=L]; b -> c [label=L] }';
+        expect(shapeOf(parse(dot).nodes)).toBe('50(30(20,),)');
+    });
+
+    test('reads back an exported tree, skipping invisible placeholders', () => {
+        const nodes = SequenceUtils.buildTree([50, 30, 70, 20, 80], 'bst');
+        expect(shapeOf(parse(ExportUtils.toDot(nodes)).nodes)).toBe('50(30(20,),70(,80))');
+    });
+
+    test('points at the offending token', () => {
+        expect(ImportUtils.parseTreeText('digraph {\n  50 -> 30\n  40 -> 30\n}')).toEqual({
+            ok: false,
+            error: 'Line 3, column 9: 30 has two parents, 50 and 40',
+            start: 29,
+            end: 31
+        });
+        expect(ImportUtils.parseTreeText('digraph { a -> b }')).toMatchObject({
+            ok: false,
+            error: expect.stringContaining('Column 11: The node "a" has no whole-number key')
+        });
+        expect(ImportUtils.parseTreeText('digraph { 50 -> }')).toMatchObject({ ok: false, start: 16, end: 17 });
+    });
+
+    test('rejects a second root', () => {
+        expect(ImportUtils.parseTreeText('digraph { 50 -> 30; 80 }')).toMatchObject({
+            ok: false,
+            error: 'Column 21: 80 is not connected to 50: a tree has only one root'
+        });
+    });
+});
+
+describe('ImportUtils.formatErrorExcerpt', () => {
+    test('underlines the token on its line', () => {
+        expect(ImportUtils.formatErrorExcerpt('digraph {\n  50 -> 30\n  40 -> 30\n}', 29, 31)).toBe('  40 -> 30\n        ^^');
+    });
+
+    test('shows one caret at the end of the input', () => {
+        expect(ImportUtils.formatErrorExcerpt('50(30,', 6, 6)).toBe('50(30,\n      ^');
+    });
+});
+
+describe('ImportUtils.parseTreeText with ASCII drawings', () => {
+    const trees = [
+        [50, 30, 70, 20, 40, 60, 80],
+        [100, 5, 200, 150, 1000, 120],
+        [50, 10, 20, 30, 40, 60],
+        [-5, -20, 7, -10]
+    ];
+
+    test('reads back showTree drawings', () => {
+        trees.forEach(keys => {
+            const nodes = SequenceUtils.buildTree(keys, 'bst');
+            const result = parse(AsciiUtils.toShowTree(nodes));
+            expect(result.format).toBe('show-tree');
+            expect(shapeOf(result.nodes)).toBe(shapeOf(nodes));
+        });
+    });
+
+    test('reads back sideways drawings', () => {
+        trees.forEach(keys => {
+            const nodes = SequenceUtils.buildTree(keys, 'bst');
+            const result = parse(AsciiUtils.toSideways(nodes));
+            expect(result.format).toBe('sideways');
+            expect(shapeOf(result.nodes)).toBe(shapeOf(nodes));
+        });
+    });
+
+    test('points at keys that are not connected', () => {
+        expect(ImportUtils.parseTreeText('  50\n  /\n30   70\n')).toEqual({
+            ok: false,
+            error: 'Line 3, column 6: 70 is not connected to the tree',
+            start: 14,
+            end: 16
+        });
+        expect(ImportUtils.parseTreeText('    70\n50\n            40\n')).toMatchObject({
+            ok: false,
+            error: 'Line 3, column 13: 40 is indented more than one level below its parent'
+        });
+    });
+});
@@ -0,0 +1,457 @@
+// Importing trees pasted as text: Graphviz DOT digraphs, bracket notation like "50(30(20,40),70(,80))",
+// and the ASCII drawings printed by the C starter code (see AsciiUtils)
+// Errors point at the offending token, giving its line and column and its span in the text
+import { TreeNode, NodeColor, ImportFormat, TreeImportResult } from './types';
+import TreeUtils from './treeUtils';
+import BSTUtils from './bstUtils';
+
+interface Token {
+    text: string; // Unquoted text of the token
+    start: number;
+    end: number;
+    quoted?: boolean;
+}
+
+// A parse error carrying the span of the token it is about
+type ImportError = Error & { start: number, end: number };
+
+const isKey = (text: string) => /^-?\d+$/.test(text);
+
+// "Line 2, column 5" (or just "Column 5" for one-line input) for a position in the text
+const describePosition = (text: string, index: number): string => {
+    const before = text.slice(0, index).split('\n');
+    const column = before[before.length - 1].length + 1;
+    return text.includes('\n') ? `Line ${before.length}, column ${column}` : `Column ${column}`;
+};
+
+const fail = (message: string, token: { start: number, end: number }): never => {
+    throw Object.assign(new Error(message), { start: token.start, end: token.end });
+};
+
+const describeToken = (token: Token) => token.start === token.end ? 'the end of the input' : `"${token.text}"`;
+
+// Order the nodes from the root in pre-order, and check the keys are in BST order
+const finishTree = (nodes: TreeNode[], tokens: Map<string, Token>, rootId: string): TreeNode[] => {
+    const nodeMap = TreeUtils.buildNodeMap(nodes);
+    const ordered: TreeNode[] = [];
+    const visit = (nodeId: string | undefined) => {
+        const node = nodeId ? nodeMap.get(nodeId) : undefined;
+        if (!node) return;
+        ordered.push(node);
+        visit(node.left?.id);
+        visit(node.right?.id);
+    };
+    visit(rootId);
+
+    const violation = BSTUtils.checkOrdering(ordered).violations[0];
+    if (violation) fail(violation.message, tokens.get(violation.nodeId)!);
+    return ordered;
+};
+
+// Bracket notation: a key, optionally followed by its children in brackets
+// "(left,right)" places each child by position and either may be left empty; a single "(child)" goes on
+// whichever side its key belongs
+const parseBracket = (text: string): TreeNode[] => {
+    const tokens: Token[] = [];
+    const pattern = /[(),]|[^\s(),]+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+    }
+
+    const endToken: Token = { text: '', start: text.length, end: text.length };
+    let index = 0;
+    const peek = () => tokens[index] ?? endToken;
+    const next = () => tokens[index++] ?? endToken;
+
+    const nodes: TreeNode[] = [];
+    const nodeTokens = new Map<string, Token>();
+    const keyTokens = new Map<number, Token>();
+
+    const parseNode = (): TreeNode => {
+        const token = next();
+        if (!isKey(token.text)) fail(`Expected a key, found ${describeToken(token)}`, token);
+
+        const value = parseInt(token.text, 10);
+        if (keyTokens.has(value)) fail(`The key ${value} appears twice`, token);
+        keyTokens.set(value, token);
+
+        const node: TreeNode = { id: TreeUtils.generateId(), value, x: 0, y: 0 };
+        nodes.push(node);
+        nodeTokens.set(node.id, token);
+        if (peek().text !== '(') return node;
+
+        next();
+        const first = [',', ')'].includes(peek().text) ? undefined : parseNode();
+        if (peek().text === ',') {
+            next();
+            node.left = first;
+            node.right = peek().text === ')' ? undefined : parseNode();
+        } else if (first) {
+            node[first.value < value ? 'left' : 'right'] = first;
+        }
+
+        const close = next();
+        if (close.text !== ')') fail(`Expected "," or ")", found ${describeToken(close)}`, close);
+        return node;
+    };
+
+    const root = parseNode();
+    if (index < tokens.length) fail(`Unexpected ${describeToken(peek())} after the end of the tree`, peek());
+    return finishTree(nodes, nodeTokens, root.id);
+};
+
+// Graphviz DOT: node statements, edge chains and attribute lists are read; graph, node and edge
+// defaults are skipped. Each node's key is its label (or its name), and each child goes on the side
+// given by an edge label (L, R, left or right) or else on the side its key belongs
+// Invisible nodes and edges, used as placeholders to keep children apart, are ignored
+const parseDot = (text: string): TreeNode[] => {
+    const tokens: Token[] = [];
+    const pattern = /\s+|\/\/[^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/|"(?:\\.|[^"\\])*"|->|--|[{}[\];,=:]|-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*|./g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const raw = match[0];
+        if (/^(\s|\/\/|#|\/\*)/.test(raw)) continue; // Whitespace and comments
+        const quoted = raw.length > 1 && raw.startsWith('"');
+        tokens.push({
+            text: quoted ? raw.slice(1, -1).replace(/\\"/g, '"') : raw,
+            start: match.index,
+            end: match.index + raw.length,
+            quoted
+        });
+    }
+
+    const endToken: Token = { text: '', start: text.length, end: text.length };
+    let index = 0;
+    const peek = () => tokens[index] ?? endToken;
+    const next = () => tokens[index++] ?? endToken;
+    const isKeyword = (token: Token, keyword: string) => !token.quoted && token.text.toLowerCase() === keyword;
+    const isId = (token: Token) => token.quoted || /^[\w\u0080-\uffff.-]+$/.test(token.text);
+    const expect = (text: string) => {
+        const token = next();
+        if (token.quoted || token.text !== text) fail(`Expected "${text}", found ${describeToken(token)}`, token);
+        return token;
+    };
+    const expectId = (what: string) => {
+        const token = next();
+        if (!isId(token) || ['{', '}'].includes(token.text)) fail(`Expected ${what}, found ${describeToken(token)}`, token);
+        return token;
+    };
+
+    // [name=value, ...], possibly repeated
+    const parseAttributes = (): Map<string, string> => {
+        const attributes = new Map<string, string>();
+        while (peek().text === '[' && !peek().quoted) {
+            next();
+            while (!(peek().text === ']' && !peek().quoted)) {
+                const name = expectId('an attribute name');
+                expect('=');
+                attributes.set(name.text.toLowerCase(), expectId(`a value for ${name.text}`).text);
+                if ([',', ';'].includes(peek().text) && !peek().quoted) next();
+            }
+            next();
+        }
+        return attributes;
+    };
+
+    if (isKeyword(peek(), 'strict')) next();
+    const graphToken = next();
+    if (!isKeyword(graphToken, 'digraph') && !isKeyword(graphToken, 'graph')) {
+        fail(`Expected "digraph" or "graph", found ${describeToken(graphToken)}`, graphToken);
+    }
+    if (peek().text !== '{') expectId('a graph name');
+    expect('{');
+
+    const declarations = new Map<string, { token: Token, attributes: Map<string, string> }>();
+    const edges: { parent: Token, child: Token, attributes: Map<string, string> }[] = [];
+    const declare = (token: Token, attributes: Map<string, string> = new Map()) => {
+        const declaration = declarations.get(token.text);
+        if (declaration) {
+            attributes.forEach((value, name) => declaration.attributes.set(name, value));
+        } else {
+            declarations.set(token.text, { token, attributes: new Map(attributes) });
+        }
+    };
+
+    while (!(peek().text === '}' && !peek().quoted)) {
+        const token = peek();
+        if (token === endToken) fail('Expected "}" to close the graph, found the end of the input', token);
+
+        if (isKeyword(token, 'subgraph') || (token.text === '{' && !token.quoted)) {
+            fail('Subgraphs are not supported', token);
+        } else if (['graph', 'node', 'edge'].some(keyword => isKeyword(token, keyword))) {
+            next();
+            parseAttributes();
+        } else if (token.text === ';' && !token.quoted) {
+            next();
+            continue;
+        } else {
+            const first = expectId('a node name');
+            if (peek().text === '=' && !peek().quoted) {
+                // A graph attribute such as rankdir=TB
+                next();
+                expectId(`a value for ${first.text}`);
+            } else {
+                const chain = [first];
+                while (['->', '--'].includes(peek().text) && !peek().quoted) {
+                    next();
+                    chain.push(expectId('a node name'));
+                }
+                const attributes = parseAttributes();
+                if (chain.length === 1) {
+                    declare(first, attributes);
+                } else {
+                    chain.forEach(nodeToken => declare(nodeToken));
+                    for (let i = 1; i < chain.length; i++) {
+                        edges.push({ parent: chain[i - 1], child: chain[i], attributes });
+                    }
+                }
+            }
+        }
+        if (peek().text === ';' && !peek().quoted) next();
+    }
+    next();
+    if (index < tokens.length) fail(`Unexpected ${describeToken(peek())} after the end of the graph`, peek());
+
+    // Nodes, keyed by their label (or name if there is no label)
+    const isInvisible = (attributes: Map<string, string>) => /\binvis\b/.test(attributes.get('style') ?? '');
+    const nodeByName = new Map<string, TreeNode>();
+    const nodeTokens = new Map<string, Token>();
+    const keyTokens = new Map<number, Token>();
+    declarations.forEach(({ token, attributes }, name) => {
+        if (isInvisible(attributes)) return;
+
+        const label = attributes.get('label');
+        const keyText = label === undefined || label === '\\N' ? name : label.trim();
+        if (!isKey(keyText)) {
+            fail(label === undefined
+                ? `The node "${name}" has no whole-number key: name it by its key or give it a label such as [label="50"]`
+                : `The label "${label}" of "${name}" is not a whole-number key`, token);
+        }
+
+        const value = parseInt(keyText, 10);
+        if (keyTokens.has(value)) fail(`The key ${value} is used by two nodes`, token);
+        keyTokens.set(value, token);
+
+        const colorText = (attributes.get('fillcolor') ?? attributes.get('color') ?? '').toLowerCase();
+        const color: NodeColor | undefined = colorText === 'red' || colorText === 'black' ? colorText : undefined;
+        const node: TreeNode = color
+            ? { id: TreeUtils.generateId(), value, x: 0, y: 0, color }
+            : { id: TreeUtils.generateId(), value, x: 0, y: 0 };
+        nodeByName.set(name, node);
+        nodeTokens.set(node.id, token);
+    });
+    if (nodeByName.size === 0) fail('The graph has no nodes', graphToken);
+
+    // Edges run from parent to child
+    const parentOf = new Map<string, TreeNode>();
+    edges.forEach(({ parent: parentToken, child: childToken, attributes }) => {
+        const parent = nodeByName.get(parentToken.text);
+        const child = nodeByName.get(childToken.text);
+        if (!parent || !child || isInvisible(attributes)) return;
+
+        if (parent === child) fail(`${parent.value} cannot be its own child`, childToken);
+        const otherParent = parentOf.get(child.id);
+        if (otherParent) fail(`${child.value} has two parents, ${otherParent.value} and ${parent.value}`, childToken);
+
+        const label = attributes.get('label')?.trim().toLowerCase();
+        const side = label === 'l' || label === 'left' ? 'left'
+            : label === 'r' || label === 'right' ? 'right'
+                : child.value < parent.value ? 'left' : 'right';
+        if (parent[side]) fail(`${parent.value} has two ${side} children, ${parent[side]!.value} and ${child.value}`, childToken);
+
+        parent[side] = child;
+        parentOf.set(child.id, parent);
+    });
+
+    // Exactly one root, with every node below it
+    const nodes = Array.from(nodeByName.values());
+    const roots = nodes.filter(node => !parentOf.has(node.id));
+    if (roots.length === 0) fail('The edges form a cycle, so the tree has no root', graphToken);
+    if (roots.length > 1) {
+        fail(`${roots[1].value} is not connected to ${roots[0].value}: a tree has only one root`, nodeTokens.get(roots[1].id)!);
+    }
+
+    const ordered = finishTree(nodes, nodeTokens, roots[0].id);
+    if (ordered.length < nodes.length) {
+        const stray = nodes.find(node => !ordered.includes(node))!;
+        fail(`${stray.value} is on a cycle of edges that is not connected to the root`, nodeTokens.get(stray.id)!);
+    }
+    return ordered;
+};
+
+// A key drawn on one row of an ASCII tree, by column
+interface DrawnKey {
+    token: Token;
+    value: number;
+    row: number;
+    column: number;
+    used: boolean;
+}
+
+// Split an ASCII drawing into rows of keys, keeping the offset of each row in the text
+// Characters other than keys, spaces and (if allowed) edges are errors
+const readDrawing = (text: string, edgeCharacters: string) => {
+    const rows: { offset: number, line: string, keys: DrawnKey[] }[] = [];
+    let offset = 0;
+    text.split('\n').forEach((rawLine, row) => {
+        const line = rawLine.replace(/\r$/, '');
+        const keys: DrawnKey[] = [];
+        const pattern = /-?\d+|\S/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(line)) !== null) {
+            const token = { text: match[0], start: offset + match.index, end: offset + match.index + match[0].length };
+            if (isKey(match[0])) {
+                keys.push({ token, value: parseInt(match[0], 10), row, column: match.index, used: false });
+            } else if (!edgeCharacters.includes(match[0])) {
+                fail(`Unexpected "${match[0]}" in the drawing`, token);
+            }
+        }
+        rows.push({ offset, line, keys });
+        offset += rawLine.length + 1;
+    });
+    return rows;
+};
+
+// Turn drawn keys into nodes, failing on a key drawn twice
+const createDrawnNodes = (keys: DrawnKey[]) => {
+    const nodeOf = new Map<DrawnKey, TreeNode>();
+    const nodeTokens = new Map<string, Token>();
+    const seenKeys = new Set<number>();
+    keys.forEach(key => {
+        if (seenKeys.has(key.value)) fail(`The key ${key.value} appears twice`, key.token);
+        seenKeys.add(key.value);
+        const node: TreeNode = { id: TreeUtils.generateId(), value: key.value, x: 0, y: 0 };
+        nodeOf.set(key, node);
+        nodeTokens.set(node.id, key.token);
+    });
+    return { nodeOf, nodeTokens };
+};
+
+// showTree's drawing: each key is centred over a run of "/" or "\" leading down to each child, as
+// AsciiUtils.toShowTree draws it. Edges are followed from the root; anything not reached is an error
+const parseShowTree = (text: string): TreeNode[] => {
+    const rows = readDrawing(text, '/\\');
+    const keys = rows.flatMap(row => row.keys);
+    const { nodeOf, nodeTokens } = createDrawnNodes(keys);
+    const usedEdges = new Set<number>(); // Offsets of edge characters followed
+    const charAt = (row: number, column: number) => rows[row]?.line[column];
+
+    // Column a key is centred on, as the printer places it
+    const centreOf = (key: DrawnKey, isLeft: boolean) => key.column + Math.floor((key.token.text.length - (isLeft ? 1 : 0)) / 2);
+
+    const follow = (key: DrawnKey, isLeft: boolean) => {
+        key.used = true;
+        const node = nodeOf.get(key)!;
+        const x = centreOf(key, isLeft);
+
+        ([['/', -1], ['\\', 1]] as const).forEach(([edge, direction]) => {
+            let length = 0;
+            while (charAt(key.row + length + 1, x + direction * (length + 1)) === edge) {
+                length++;
+                usedEdges.add(rows[key.row + length].offset + x + direction * length);
+            }
+            if (length === 0) return;
+
+            const childRow = key.row + length + 1;
+            const childX = x + direction * (length + 1);
+            const child = rows[childRow]?.keys.find(candidate => centreOf(candidate, direction < 0) === childX)
+                ?? rows[childRow]?.keys.find(candidate => candidate.column <= childX && childX < candidate.column + candidate.token.text.length);
+            const lastEdge = rows[childRow - 1].offset + x + direction * length;
+            if (!child || child.used) fail('This edge does not lead to a key', { start: lastEdge, end: lastEdge + 1 });
+
+            node[direction < 0 ? 'left' : 'right'] = nodeOf.get(child!);
+            follow(child!, direction < 0);
+        });
+    };
+
+    const topRow = rows.find(row => row.keys.length > 0);
+    if (!topRow) fail('The drawing has no keys', { start: 0, end: 0 });
+    if (topRow!.keys.length > 1) fail('Only the root may be on the top row of the drawing', topRow!.keys[1].token);
+    follow(topRow!.keys[0], false);
+
+    const stray = keys.find(key => !key.used);
+    if (stray) fail(`${stray.value} is not connected to the tree`, stray.token);
+    rows.forEach(row => Array.from(row.line).forEach((character, column) => {
+        const offset = row.offset + column;
+        if ((character === '/' || character === '\\') && !usedEdges.has(offset)) {
+            fail('This edge is not connected to a key', { start: offset, end: offset + 1 });
+        }
+    }));
+
+    return finishTree(keys.map(key => nodeOf.get(key)!), nodeTokens, nodeOf.get(topRow!.keys[0])!.id);
+};
+
+// The sideways drawing: one key per row, indented by depth, with the right subtree above its parent
+// and the left subtree below, so reading the rows bottom up gives the keys in order
+const parseSideways = (text: string): TreeNode[] => {
+    const rows = readDrawing(text, '');
+    const keys = rows.flatMap(row => {
+        if (row.keys.length > 1) fail('Each row of a sideways drawing holds one key', row.keys[1].token);
+        return row.keys;
+    });
+    if (keys.length === 0) fail('The drawing has no keys', { start: 0, end: 0 });
+
+    // Each distinct indent is one level deeper than the last
+    const indents = Array.from(new Set(keys.map(key => key.column))).sort((a, b) => a - b);
+    const depthOf = (key: DrawnKey) => indents.indexOf(key.column);
+    const { nodeOf, nodeTokens } = createDrawnNodes(keys);
+
+    // In order (bottom up), the subtree root is the one shallowest key, one level below its parent
+    const build = (inOrder: DrawnKey[], depth: number): TreeNode | undefined => {
+        if (inOrder.length === 0) return undefined;
+        const shallowest = Math.min(...inOrder.map(depthOf));
+        const roots = inOrder.filter(key => depthOf(key) === shallowest);
+        if (shallowest !== depth) fail(`${roots[0].value} is indented more than one level below its parent`, roots[0].token);
+        if (roots.length > 1) fail(`${roots[1].value} and ${roots[0].value} are at the same depth with no parent between them`, roots[1].token);
+
+        const index = inOrder.indexOf(roots[0]);
+        const node = nodeOf.get(roots[0])!;
+        node.left = build(inOrder.slice(0, index), depth + 1);
+        node.right = build(inOrder.slice(index + 1), depth + 1);
+        return node;
+    };
+
+    const root = build([...keys].reverse(), 0)!;
+    return finishTree(keys.map(key => nodeOf.get(key)!), nodeTokens, root.id);
+};
+
+// Which notation some pasted text is in
+const detectFormat = (text: string): ImportFormat => {
+    if (/^\s*(strict\s+)?(di)?graph\b/i.test(text)) return 'dot';
+    if (/[(),]/.test(text) || text.trim().split('\n').length === 1) return 'bracket';
+    return /[/\\]/.test(text) ? 'show-tree' : 'sideways';
+};
+
+const parsers: Record<ImportFormat, (text: string) => TreeNode[]> = {
+    'dot': parseDot,
+    'bracket': parseBracket,
+    'show-tree': parseShowTree,
+    'sideways': parseSideways
+};
+
+const ImportUtils = {
+    // Work out which notation was pasted and parse it into nodes (not yet laid out)
+    parseTreeText: (text: string): TreeImportResult => {
+        const format = detectFormat(text);
+        try {
+            if (text.trim() === '') fail('Paste a tree in DOT or bracket notation, e.g. 50(30(20,40),70(,80)), or an ASCII drawing', { start: 0, end: 0 });
+            const nodes = parsers[format](text);
+            return { ok: true, nodes, format };
+        } catch (error) {
+            const { message, start = 0, end = 0 } = error as ImportError;
+            return { ok: false, error: `${describePosition(text, start)}: ${message}`, start, end };
+        }
+    },
+
+    // The line holding an error with carets under the offending token, for showing under the input
+    formatErrorExcerpt: (text: string, start: number, end: number): string => {
+        const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+        const lineEnd = text.indexOf('\n', start);
+        const line = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+        const width = Math.max(1, Math.min(end, lineStart + line.length) - start);
+        return `${line}\n${' '.repeat(start - lineStart)}${'^'.repeat(width)}`;
+    }
+};
+
+export default ImportUtils;
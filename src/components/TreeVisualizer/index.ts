@@ -4,4 +4,24 @@ export { default } from './TreeVisualizer';
 // Export types and utilities for external use if needed
 export * from './types';
 export { default as TreeUtils } from './treeUtils';
-export { default as AnimationUtils } from './animationUtils'; 
\ No newline at end of file
+export { default as AnimationUtils } from './animationUtils';
+export { default as BSTUtils } from './bstUtils';
+export { default as LayoutUtils } from './layoutUtils';
+export { default as AVLUtils } from './avlUtils';
+export { default as RedBlackUtils } from './redBlackUtils';
+export { default as SplayUtils } from './splayUtils';
+export { default as HistoryUtils } from './historyUtils';
+export { default as SaveUtils } from './saveUtils';
+export { default as SequenceUtils } from './sequenceUtils';
+export { default as TraversalUtils } from './traversalUtils';
+export { default as StatsUtils } from './statsUtils';
+export { default as PlaybackUtils } from './playbackUtils';
+export { default as TimelineUtils } from './timelineUtils';
+export { default as ViewUtils } from './viewUtils';
+export { default as NarrationUtils } from './narrationUtils';
+export { default as LogUtils } from './logUtils';
+export { default as ExportUtils } from './exportUtils';
+export { default as ImportUtils } from './importUtils';
+export { default as AsciiUtils } from './asciiUtils';
+export { default as CodeUtils } from './codeUtils';
+export { default as QuizUtils } from './quizUtils';
@@ -0,0 +1,55 @@
+import LayoutUtils from './layoutUtils';
+import TreeUtils from './treeUtils';
+import { TreeNode } from './types';
+
+// Build a flat node array for the tree 50(30(20,40),70)
+const buildTree = (): TreeNode[] => {
+    const n20: TreeNode = { id: 'n20', value: 20, x: 0, y: 0 };
+    const n40: TreeNode = { id: 'n40', value: 40, x: 0, y: 0 };
+    const n70: TreeNode = { id: 'n70', value: 70, x: 0, y: 0 };
+    const n30: TreeNode = { id: 'n30', value: 30, x: 0, y: 0, left: n20, right: n40 };
+    const n50: TreeNode = { id: 'n50', value: 50, x: 0, y: 0, left: n30, right: n70 };
+    return [n50, n30, n70, n20, n40];
+};
+
+describe('LayoutUtils.calculateTreeLayout', () => {
+    test('orders nodes left to right by key and top to bottom by depth', () => {
+        const positions = LayoutUtils.calculateTreeLayout(buildTree(), { width: 400, top: 50, levelHeight: 100, maxSpacing: 50 });
+        const xs = ['n20', 'n30', 'n40', 'n50', 'n70'].map(id => positions.get(id)!.x);
+        expect(xs).toEqual([100, 150, 200, 250, 300]);
+        expect(positions.get('n50')!.y).toBe(50);
+        expect(positions.get('n40')!.y).toBe(250);
+    });
+
+    test('reflows every subtree after a rotation', () => {
+        const rotated = TreeUtils.rotateNodes(buildTree(), 'n50', 'right');
+        const positions = LayoutUtils.calculateTreeLayout(rotated);
+        expect(positions.get('n30')!.y).toBeLessThan(positions.get('n50')!.y);
+        expect(positions.get('n40')!.y).toBeGreaterThan(positions.get('n50')!.y);
+        expect(positions.get('n40')!.x).toBeLessThan(positions.get('n50')!.x);
+    });
+
+    test('squeezes spacing so wide trees fit the canvas', () => {
+        const nodes: TreeNode[] = [];
+        for (let i = 0; i < 40; i++) {
+            const node: TreeNode = { id: `n${i}`, value: i, x: 0, y: 0 };
+            if (i > 0) nodes[i - 1].right = node;
+            nodes.push(node);
+        }
+        const positions = LayoutUtils.calculateTreeLayout(nodes, { width: 1100, marginX: 50 });
+        expect(positions.get('n0')!.x).toBeCloseTo(50);
+        expect(positions.get('n39')!.x).toBeCloseTo(1050);
+    });
+
+    test('spreads past the canvas edges rather than squeezing below the minimum spacing', () => {
+        const nodes: TreeNode[] = [];
+        for (let i = 0; i < 40; i++) {
+            const node: TreeNode = { id: `n${i}`, value: i, x: 0, y: 0 };
+            if (i > 0) nodes[i - 1].right = node;
+            nodes.push(node);
+        }
+        const positions = LayoutUtils.calculateTreeLayout(nodes, { width: 1100, minSpacing: 50 });
+        expect(positions.get('n1')!.x - positions.get('n0')!.x).toBeCloseTo(50);
+        expect((positions.get('n0')!.x + positions.get('n39')!.x) / 2).toBeCloseTo(550); // Still centred
+    });
+});
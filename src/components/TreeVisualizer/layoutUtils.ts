@@ -0,0 +1,78 @@
+// Automatic layout for the TreeVisualizer component
+// Nodes are placed left to right in in-order sequence and top to bottom by depth,
+// so a BST's keys always read in sorted order across the canvas and subtrees never overlap
+import { Position, TreeNode, LayoutOptions } from './types';
+import TreeUtils from './treeUtils';
+
+const defaultLayoutOptions: LayoutOptions = {
+    width: 1100,
+    marginX: 60,
+    top: 60,
+    levelHeight: 80,
+    maxSpacing: 60,
+    minSpacing: 0
+};
+
+const LayoutUtils = {
+    // List every node in in-order sequence along with its depth
+    // Each tree in a forest is listed in turn, in root order
+    getInOrderDepths: (nodes: TreeNode[]): { id: string, depth: number }[] => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const ordered: { id: string, depth: number }[] = [];
+        const visited = new Set<string>();
+
+        const visit = (nodeId: string | undefined, depth: number) => {
+            if (!nodeId || visited.has(nodeId)) return;
+            const node = nodeMap.get(nodeId);
+            if (!node) return;
+
+            visited.add(nodeId);
+            visit(node.left?.id, depth + 1);
+            ordered.push({ id: nodeId, depth });
+            visit(node.right?.id, depth + 1);
+        };
+
+        TreeUtils.findRootNodes(nodes).forEach(root => visit(root.id, 0));
+        return ordered;
+    },
+
+    // Calculate a target position for every node
+    calculateTreeLayout: (nodes: TreeNode[], options: Partial<LayoutOptions> = {}): Map<string, Position> => {
+        const { width, marginX, top, levelHeight, maxSpacing, minSpacing } = { ...defaultLayoutOptions, ...options };
+        const positions = new Map<string, Position>();
+
+        const ordered = LayoutUtils.getInOrderDepths(nodes);
+        if (ordered.length === 0) return positions;
+
+        // Shrink the horizontal spacing when the tree would not otherwise fit, down to the minimum
+        const spacing = ordered.length > 1
+            ? Math.max(minSpacing, Math.min(maxSpacing, (width - 2 * marginX) / (ordered.length - 1)))
+            : 0;
+        const startX = (width - spacing * (ordered.length - 1)) / 2;
+
+        ordered.forEach(({ id, depth }, index) => {
+            positions.set(id, { x: startX + index * spacing, y: top + depth * levelHeight });
+        });
+
+        return positions;
+    },
+
+    // Check whether every node already sits at its target position
+    isAtLayout: (nodes: TreeNode[], positions: Map<string, Position>, tolerance: number = 0.5): boolean => {
+        return nodes.every(node => {
+            const target = positions.get(node.id);
+            return !target || (Math.abs(target.x - node.x) <= tolerance && Math.abs(target.y - node.y) <= tolerance);
+        });
+    },
+
+    // Return a copy of the nodes moved to the given positions
+    applyPositions: (nodes: TreeNode[], positions: Map<string, Position>): TreeNode[] => {
+        const updatedNodes = nodes.map(node => {
+            const target = positions.get(node.id);
+            return target ? { ...node, x: target.x, y: target.y } : { ...node };
+        });
+        return TreeUtils.relinkNodes(updatedNodes);
+    }
+};
+
+export default LayoutUtils;
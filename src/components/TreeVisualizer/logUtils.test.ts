@@ -0,0 +1,38 @@
+import LogUtils from './logUtils';
+
+const at = (hours: number, minutes: number, seconds: number) => new Date(2024, 2, 4, hours, minutes, seconds).getTime();
+const entries = [
+    LogUtils.createEntry('insert', 'Inserted 40 as the right child of 30', ['a', 'b'], at(9, 5, 3)),
+    LogUtils.createEntry('rotate', 'Rotated left at 30; 40 is now the subtree root', ['a', 'b'], at(14, 30, 59))
+];
+
+describe('LogUtils.createEntry', () => {
+    test('gives each entry its own id', () => {
+        expect(entries[0].id).not.toBe(entries[1].id);
+        expect(entries[0].nodeIds).toEqual(['a', 'b']);
+    });
+});
+
+describe('LogUtils.toText', () => {
+    test('numbers each entry with its time and kind', () => {
+        expect(LogUtils.toText(entries)).toBe(
+            'Tree operation log\n\n' +
+            '1. [09:05:03] Insert: Inserted 40 as the right child of 30\n' +
+            '2. [14:30:59] Rotate: Rotated left at 30; 40 is now the subtree root\n'
+        );
+    });
+});
+
+describe('LogUtils.toMarkdown', () => {
+    test('writes a numbered list under a heading', () => {
+        expect(LogUtils.toMarkdown(entries)).toBe(
+            '# Tree operation log\n\n' +
+            '1. `09:05:03` **Insert**: Inserted 40 as the right child of 30\n' +
+            '2. `14:30:59` **Rotate**: Rotated left at 30; 40 is now the subtree root\n'
+        );
+    });
+
+    test('notes an empty log', () => {
+        expect(LogUtils.toMarkdown([])).toBe('# Tree operation log\n\n_No operations recorded._\n');
+    });
+});
@@ -0,0 +1,55 @@
+// Operation log: a running account of every edit, for "what did we just do" notes after class
+import { LogEntry, LogKind } from './types';
+
+const kindLabels: Record<LogKind, string> = {
+    'create': 'Create',
+    'insert': 'Insert',
+    'delete': 'Delete',
+    'rotate': 'Rotate',
+    'recolor': 'Recolour',
+    'move': 'Move',
+    'edit': 'Edit',
+    'undo': 'Undo',
+    'redo': 'Redo',
+    'build': 'Build',
+    'load': 'Load',
+    'quiz': 'Quiz'
+};
+
+const pad = (value: number) => `${value}`.padStart(2, '0');
+
+const LogUtils = {
+    createEntry: (kind: LogKind, text: string, nodeIds: string[] = [], time: number = Date.now()): LogEntry => ({
+        id: `log-${time}-${Math.random().toString(36).slice(2, 7)}`,
+        time,
+        kind,
+        text,
+        nodeIds
+    }),
+
+    getKindLabel: (kind: LogKind): string => kindLabels[kind],
+
+    // Local time of day as HH:MM:SS
+    formatTime: (time: number): string => {
+        const date = new Date(time);
+        return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+    },
+
+    // Plain text, one numbered line per entry
+    toText: (entries: LogEntry[]): string => {
+        const lines = entries.map((entry, index) =>
+            `${index + 1}. [${LogUtils.formatTime(entry.time)}] ${kindLabels[entry.kind]}: ${entry.text}`
+        );
+        return ['Tree operation log', '', ...lines].join('\n') + '\n';
+    },
+
+    // Markdown numbered list, with the kind of each edit in bold
+    toMarkdown: (entries: LogEntry[]): string => {
+        const lines = entries.map((entry, index) =>
+            `${index + 1}. \`${LogUtils.formatTime(entry.time)}\` **${kindLabels[entry.kind]}**: ${entry.text}`
+        );
+        return ['# Tree operation log', '', ...(lines.length > 0 ? lines : ['_No operations recorded._'])].join('\n') + '\n';
+    }
+};
+
+export default LogUtils;
@@ -0,0 +1,38 @@
+import NarrationUtils from './narrationUtils';
+import SequenceUtils from './sequenceUtils';
+
+// 50(30(20,40),70)
+const nodes = SequenceUtils.buildTree([50, 30, 70, 20, 40], 'bst');
+const idOf = (value: number) => nodes.find(node => node.value === value)!.id;
+
+describe('NarrationUtils.getFocusTarget', () => {
+    test('moves up to the parent and down to either child', () => {
+        expect(NarrationUtils.getFocusTarget(nodes, idOf(30), 'parent')?.value).toBe(50);
+        expect(NarrationUtils.getFocusTarget(nodes, idOf(30), 'left')?.value).toBe(20);
+        expect(NarrationUtils.getFocusTarget(nodes, idOf(30), 'right')?.value).toBe(40);
+    });
+
+    test('stays put at the root and at leaves', () => {
+        expect(NarrationUtils.getFocusTarget(nodes, idOf(50), 'parent')).toBeNull();
+        expect(NarrationUtils.getFocusTarget(nodes, idOf(70), 'left')).toBeNull();
+    });
+});
+
+describe('NarrationUtils.describeNode', () => {
+    test('names the position and both children', () => {
+        expect(NarrationUtils.describeNode(nodes, idOf(30))).toBe('30, left child of 50; left child 20, right child 40');
+        expect(NarrationUtils.describeNode(nodes, idOf(70))).toBe('70, right child of 50; no left child, no right child');
+        expect(NarrationUtils.describeNode(nodes, idOf(50))).toBe('50, root; left child 30, right child 70');
+    });
+});
+
+describe('NarrationUtils.describeRotation', () => {
+    test('names the child that rises', () => {
+        expect(NarrationUtils.describeRotation(nodes, idOf(30), 'left')).toBe('Rotated left at 30; 40 is now the subtree root');
+        expect(NarrationUtils.describeRotation(nodes, idOf(50), 'right')).toBe('Rotated right at 50; 30 is now the root of the tree');
+    });
+
+    test('returns null without a child on the rising side', () => {
+        expect(NarrationUtils.describeRotation(nodes, idOf(70), 'left')).toBeNull();
+    });
+});
@@ -0,0 +1,51 @@
+// Keyboard navigation and screen-reader narration: moving the focus around the tree
+// and describing nodes and rotations in words for an ARIA live region
+import { TreeNode, FocusMove, RotationDirection } from './types';
+import TreeUtils from './treeUtils';
+
+const NarrationUtils = {
+    // The node the focus moves to, or null if there is nothing in that direction
+    getFocusTarget: (nodes: TreeNode[], nodeId: string, move: FocusMove): TreeNode | null => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const node = nodeMap.get(nodeId);
+        if (!node) return null;
+
+        const targetId = move === 'parent'
+            ? TreeUtils.findParentNode(nodes, nodeId)?.parent.id
+            : node[move]?.id;
+        return targetId ? nodeMap.get(targetId) ?? null : null;
+    },
+
+    // A node's key, where it sits and what is below it, e.g. "40, left child of 50; left child 30, no right child"
+    describeNode: (nodes: TreeNode[], nodeId: string): string => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const node = nodeMap.get(nodeId);
+        if (!node) return '';
+
+        const parentResult = TreeUtils.findParentNode(nodes, nodeId);
+        const position = parentResult
+            ? `${parentResult.isLeftChild ? 'left' : 'right'} child of ${parentResult.parent.value}`
+            : 'root';
+        const children = (['left', 'right'] as const).map(side => {
+            const child = node[side] ? nodeMap.get(node[side]!.id) : undefined;
+            return child ? `${side} child ${child.value}` : `no ${side} child`;
+        });
+
+        return `${node.value}, ${position}; ${children.join(', ')}`;
+    },
+
+    // What a rotation did, e.g. "Rotated left at 40; 60 is now the subtree root"
+    // Returns null if the node has no child to rotate up
+    describeRotation: (nodes: TreeNode[], nodeId: string, direction: RotationDirection): string | null => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const node = nodeMap.get(nodeId);
+        const childId = node?.[direction === 'left' ? 'right' : 'left']?.id;
+        const child = childId ? nodeMap.get(childId) : undefined;
+        if (!node || !child) return null;
+
+        const isRoot = !TreeUtils.findParentNode(nodes, nodeId);
+        return `Rotated ${direction} at ${node.value}; ${child.value} is now the ${isRoot ? 'root of the tree' : 'subtree root'}`;
+    }
+};
+
+export default NarrationUtils;
@@ -0,0 +1,69 @@
+import PlaybackUtils from './playbackUtils';
+import TimelineUtils from './timelineUtils';
+import TreeUtils from './treeUtils';
+import LayoutUtils from './layoutUtils';
+import SequenceUtils from './sequenceUtils';
+
+const phaseDuration = 600;
+
+// Right rotation at 50 in 50(30(20,40),70): 30 rises, 50 drops and 40 is reparented
+const setup = () => {
+    const tree = SequenceUtils.buildTree([50, 30, 70, 20, 40], 'bst');
+    const nodes = LayoutUtils.applyPositions(tree, LayoutUtils.calculateTreeLayout(tree));
+    const idOf = (value: number) => nodes.find(node => node.value === value)!.id;
+    const rotated = TreeUtils.rotateNodes(nodes, idOf(50), 'right');
+    const targetPositions = LayoutUtils.calculateTreeLayout(rotated);
+    const timeline = PlaybackUtils.createRotationTimeline(nodes, idOf(50), 'right', targetPositions, phaseDuration)!;
+    return { nodes, idOf, targetPositions, timeline };
+};
+
+// Time partway through a phase
+const timeAt = (phaseIndex: number, progress: number) => (phaseIndex + progress) * phaseDuration;
+
+describe('PlaybackUtils.createRotationTimeline', () => {
+    test('marks each phase in order', () => {
+        const { timeline } = setup();
+        expect(timeline.markers.map(marker => [marker.name, marker.time])).toEqual([
+            ['detach', 0], ['move', 600], ['attach', 1200], ['reparent', 1800]
+        ]);
+        expect(timeline.duration).toBe(2400);
+        expect(timeline.markers[3].caption).toMatch(/^Reparent: 40 moves from 30's right to 50's left/);
+    });
+
+    test('skips the reparent phase without an inner grandchild', () => {
+        const nodes = SequenceUtils.buildTree([50, 30], 'bst');
+        const timeline = PlaybackUtils.createRotationTimeline(nodes, nodes[0].id, 'right', new Map())!;
+        expect(timeline.markers.map(marker => marker.name)).toEqual(['detach', 'move', 'attach']);
+    });
+
+    test('returns null without a child to rotate up', () => {
+        const nodes = SequenceUtils.buildTree([50], 'bst');
+        expect(PlaybackUtils.createRotationTimeline(nodes, nodes[0].id, 'left', new Map())).toBeNull();
+    });
+
+    test('keeps nodes still until the move phase and then eases them to their targets', () => {
+        const { nodes, idOf, targetPositions, timeline } = setup();
+        const start = nodes.find(node => node.value === 30)!;
+        const target = targetPositions.get(idOf(30))!;
+        const positionAt = (time: number) => TimelineUtils.seek(nodes, timeline, time).nodes.find(node => node.value === 30);
+
+        expect(positionAt(timeAt(0, 0.5))).toMatchObject({ x: start.x, y: start.y });
+        expect(positionAt(timeAt(1, 0.5))!.y).toBeCloseTo((start.y + target.y) / 2);
+        expect(positionAt(timeAt(2, 0))).toMatchObject(target);
+    });
+
+    test('swaps the changing links in phase order', () => {
+        const { nodes, idOf, timeline } = setup();
+        const typesAt = (time: number) => TimelineUtils.seek(nodes, timeline, time)
+            .animatedLinks.map(link => `${link.type}:${link.progress}`);
+
+        expect(typesAt(timeAt(0, 0.5))).toEqual(['delete:0.5', 'reparent:0']);
+        expect(typesAt(timeAt(2, 0.5))).toEqual(['create:0.5', 'reparent:0']);
+        expect(typesAt(timeAt(4, 0))).toEqual(['create:1', 'reparent:1']);
+
+        // The detached link never comes back; its replacement is the create link
+        const links = TimelineUtils.seek(nodes, timeline, timeline.duration).links.map(link => link.id);
+        expect(links).toEqual(expect.arrayContaining([`${idOf(50)}-${idOf(70)}`, `${idOf(30)}-${idOf(20)}`]));
+        expect(links).not.toContain(`${idOf(50)}-${idOf(30)}`);
+    });
+});
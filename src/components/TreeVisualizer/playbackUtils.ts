@@ -0,0 +1,122 @@
+// Rotation playback: a rotation laid out as a timeline of named phases,
+// so it can be paused, stepped through and stepped back
+import {
+    Position,
+    TreeNode,
+    NodeTrack,
+    LinkTrack,
+    LinkSpan,
+    RotationDirection,
+    RotationPhaseName,
+    Timeline
+} from './types';
+import TreeUtils from './treeUtils';
+
+const PlaybackUtils = {
+    // Plan the phases of a rotation: detach the parent -> child link, move the nodes,
+    // attach child -> parent, and reparent the grandchild (if there is one)
+    // Each phase lasts phaseDuration milliseconds and starts at a marker of the same name
+    createRotationTimeline: (
+        nodes: TreeNode[],
+        nodeId: string,
+        direction: RotationDirection,
+        targetPositions: Map<string, Position>,
+        phaseDuration: number = 600
+    ): Timeline | null => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const node = nodeMap.get(nodeId);
+        const childSide = direction === 'left' ? 'right' : 'left';
+        const innerSide = direction === 'left' ? 'left' : 'right';
+        const child = node?.[childSide] ? nodeMap.get(node[childSide]!.id) : undefined;
+        if (!node || !child) return null;
+
+        const grandchild = child[innerSide] ? nodeMap.get(child[innerSide]!.id) : undefined;
+        const parent = TreeUtils.findParentNode(nodes, nodeId)?.parent;
+
+        const phases: { name: RotationPhaseName, caption: string }[] = [
+            {
+                name: 'detach',
+                caption: `Detach: remove the link from ${node.value} to its ${childSide} child ${child.value}`
+            },
+            {
+                name: 'move',
+                caption: `Move: ${child.value} rises into ${node.value}'s place and ${node.value} moves down to the ${innerSide}`
+            },
+            {
+                name: 'attach',
+                caption: `Attach: ${node.value} becomes ${child.value}'s ${innerSide} child` +
+                    (parent ? `, and ${child.value} takes ${node.value}'s place under ${parent.value}` : `, and ${child.value} is the new root`)
+            }
+        ];
+        if (grandchild) {
+            phases.push({
+                name: 'reparent',
+                caption: `Reparent: ${grandchild.value} moves from ${child.value}'s ${innerSide} to ${node.value}'s ${childSide}, keeping the keys in order`
+            });
+        }
+
+        const markers = phases.map((phase, index) => ({ ...phase, time: index * phaseDuration }));
+        const duration = phases.length * phaseDuration;
+        const startOf = (name: RotationPhaseName) => markers.find(marker => marker.name === name)?.time ?? duration;
+        const endOf = (name: RotationPhaseName) => startOf(name) + phaseDuration;
+
+        // Nodes ease from where they are to their targets during the move phase
+        const nodeTracks: NodeTrack[] = nodes
+            .filter(treeNode => targetPositions.has(treeNode.id))
+            .map((treeNode): NodeTrack => ({
+                nodeId: treeNode.id,
+                keyframes: [
+                    { time: startOf('move'), value: { x: treeNode.x, y: treeNode.y } },
+                    { time: endOf('move'), value: targetPositions.get(treeNode.id)!, easing: 'ease-in-out' }
+                ]
+            }));
+
+        const linkTracks: LinkTrack[] = [
+            {
+                id: `delete-${node.id}-${child.id}`,
+                type: 'delete',
+                sourceId: node.id,
+                targetId: child.id,
+                from: 0,
+                to: endOf('detach'),
+                keyframes: [{ time: startOf('detach'), value: 0 }, { time: endOf('detach'), value: 1 }]
+            },
+            {
+                id: `create-${child.id}-${node.id}`,
+                type: 'create',
+                sourceId: child.id,
+                targetId: node.id,
+                from: startOf('attach'),
+                to: duration,
+                keyframes: [{ time: startOf('attach'), value: 0 }, { time: endOf('attach'), value: 1 }]
+            }
+        ];
+        if (grandchild) {
+            linkTracks.push({
+                id: `reparent-${grandchild.id}`,
+                type: 'reparent',
+                sourceId: child.id,
+                targetId: grandchild.id,
+                endSourceId: node.id,
+                from: 0,
+                to: duration,
+                keyframes: [{ time: startOf('reparent'), value: 0 }, { time: endOf('reparent'), value: 1 }]
+            });
+        }
+
+        // The changing links are drawn by their tracks; the parent's link moves to the child once it is attached
+        const hiddenLinks: LinkSpan[] = [{ sourceId: node.id, targetId: child.id, from: 0, to: duration }];
+        if (grandchild) {
+            hiddenLinks.push({ sourceId: child.id, targetId: grandchild.id, from: 0, to: duration });
+        }
+        const addedLinks: LinkSpan[] = [];
+        if (parent) {
+            hiddenLinks.push({ sourceId: parent.id, targetId: node.id, from: startOf('attach'), to: duration });
+            addedLinks.push({ sourceId: parent.id, targetId: child.id, from: startOf('attach'), to: duration });
+        }
+
+        return { duration, nodeTracks, linkTracks, hiddenLinks, addedLinks, markers };
+    }
+};
+
+export default PlaybackUtils;
@@ -0,0 +1,55 @@
+import QuizUtils from './quizUtils';
+import AVLUtils from './avlUtils';
+import BSTUtils from './bstUtils';
+import SequenceUtils from './sequenceUtils';
+import TreeUtils from './treeUtils';
+import { QuizDifficulty } from './types';
+
+// Small linear congruential generator, so every run sees the same questions
+const seeded = (seed: number) => () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+};
+
+describe('QuizUtils.generateQuestion', () => {
+    test('asks about a valid BST and expects a valid BST back', () => {
+        (['easy', 'medium', 'hard'] as QuizDifficulty[]).forEach(difficulty => {
+            for (let seed = 1; seed <= 10; seed++) {
+                const question = QuizUtils.generateQuestion(difficulty, seeded(seed));
+                expect(BSTUtils.checkOrdering(question.start).violations).toEqual([]);
+                expect(BSTUtils.checkOrdering(question.answer).violations).toEqual([]);
+                expect(TreeUtils.findDifference(question.start, question.answer)).not.toBeNull();
+            }
+        });
+    });
+
+    test('rotates at the root on easy', () => {
+        for (let seed = 1; seed <= 10; seed++) {
+            const question = QuizUtils.generateQuestion('easy', seeded(seed));
+            const rootId = TreeUtils.findRootNode(question.start)?.id;
+            expect(question.task.kind === 'insert' || (question.task.kind === 'rotate' && question.task.nodeId === rootId)).toBe(true);
+        }
+    });
+
+    test('needs a double rotation for hard AVL inserts and keeps the answer balanced', () => {
+        for (let seed = 1; seed <= 10; seed++) {
+            const question = QuizUtils.generateQuestion('hard', seeded(seed));
+            if (question.task.kind !== 'insert') continue;
+
+            const balanceFactors = Array.from(AVLUtils.calculateBalanceFactors(question.answer).values());
+            const value = question.task.value;
+            expect(question.prompt).toBe(`Insert ${value} into this AVL tree, rebalancing it if needed`);
+            expect(balanceFactors.every(factor => Math.abs(factor) <= 1)).toBe(true);
+            expect(TreeUtils.findDifference(question.answer, SequenceUtils.insertKey(question.start, value, 'bst'))).not.toBeNull();
+        }
+    });
+
+    test('names the node to rotate at in the prompt', () => {
+        const question = QuizUtils.generateQuestion('medium', seeded(3));
+        const task = question.task;
+        const expected = task.kind === 'rotate'
+            ? `Rotate ${task.direction} at ${question.start.find(node => node.id === task.nodeId)!.value}`
+            : `Insert ${task.value} into this AVL tree, rebalancing it if needed`;
+        expect(question.prompt).toBe(expected);
+    });
+});
@@ -0,0 +1,112 @@
+// Quiz mode: random trees with a rotation or insertion to carry out by hand
+// Answers are marked by comparing the student's tree with the expected one (TreeUtils.findDifference)
+import { TreeNode, QuizDifficulty, QuizQuestion, QuizTask, RotationDirection } from './types';
+import TreeUtils from './treeUtils';
+import AVLUtils from './avlUtils';
+import BSTUtils from './bstUtils';
+import SequenceUtils from './sequenceUtils';
+
+// What each difficulty asks
+// Easy: rotate at the root, or insert into a plain BST
+// Medium: rotate anywhere, or an AVL insert fixed by a single rotation
+// Hard: rotate below the root, or an AVL insert that needs a double rotation
+type QuestionKind = 'rotate-root' | 'rotate-any' | 'rotate-inner' | 'bst-insert' | 'avl-single' | 'avl-double';
+
+const difficulties: Record<QuizDifficulty, { minSize: number, maxSize: number, kinds: QuestionKind[] }> = {
+    'easy': { minSize: 4, maxSize: 6, kinds: ['rotate-root', 'bst-insert'] },
+    'medium': { minSize: 6, maxSize: 9, kinds: ['rotate-any', 'avl-single'] },
+    'hard': { minSize: 9, maxSize: 13, kinds: ['rotate-inner', 'avl-double'] }
+};
+
+const maxKey = 99;
+const maxAttempts = 50; // Random trees tried before settling for any question of the kind
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+// Keys 1 to maxKey in a random order
+const shuffledKeys = (random: () => number): number[] => {
+    const keys = Array.from({ length: maxKey }, (_, index) => index + 1);
+    for (let i = keys.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [keys[i], keys[j]] = [keys[j], keys[i]];
+    }
+    return keys;
+};
+
+const describeTask = (task: QuizTask, nodes: TreeNode[]): string => {
+    if (task.kind === 'rotate') {
+        const node = nodes.find(treeNode => treeNode.id === task.nodeId);
+        return `Rotate ${task.direction} at ${node?.value}`;
+    }
+    return task.mode === 'avl'
+        ? `Insert ${task.value} into this AVL tree, rebalancing it if needed`
+        : `Insert ${task.value} into this BST`;
+};
+
+// Rotations that can be made in a tree: a node and a direction it has the child for
+const findRotations = (nodes: TreeNode[], kind: QuestionKind): { nodeId: string, direction: RotationDirection }[] => {
+    const root = TreeUtils.findRootNode(nodes);
+    return nodes
+        .filter(node => kind === 'rotate-any' || (kind === 'rotate-root') === (node.id === root?.id))
+        .flatMap(node => [
+            ...(node.right ? [{ nodeId: node.id, direction: 'left' as const }] : []),
+            ...(node.left ? [{ nodeId: node.id, direction: 'right' as const }] : [])
+        ]);
+};
+
+// Keys not in an AVL tree whose insertion needs the given number of rotations to rebalance
+const findAVLInserts = (nodes: TreeNode[], keys: number[], rotationCount: number): number[] => {
+    return keys.filter(key => {
+        const path = BSTUtils.findSearchPath(nodes, key);
+        if (path.found || !path.parentId) return false;
+
+        const inserted = TreeUtils.attachChild(nodes, path.parentId, { id: 'quiz-key', value: key, x: 0, y: 0 }, path.isLeft);
+        return AVLUtils.planRebalance(inserted, path.parentId).rotations.length === rotationCount;
+    });
+};
+
+// Try to set a question of one kind on a fresh random tree, or null if this tree has none
+const tryQuestion = (kind: QuestionKind, size: number, random: () => number): QuizTask & { start: TreeNode[] } | null => {
+    const keys = shuffledKeys(random);
+    const isAVL = kind === 'avl-single' || kind === 'avl-double';
+    const start = SequenceUtils.buildTree(keys.slice(0, size), isAVL ? 'avl' : 'bst');
+    const unused = keys.slice(size);
+
+    if (kind === 'bst-insert') {
+        return { kind: 'insert', value: unused[0], mode: 'bst', start };
+    }
+    if (isAVL) {
+        const candidates = findAVLInserts(start, unused, kind === 'avl-single' ? 1 : 2);
+        return candidates.length > 0 ? { kind: 'insert', value: candidates[0], mode: 'avl', start } : null;
+    }
+
+    const rotations = findRotations(start, kind);
+    return rotations.length > 0 ? { kind: 'rotate', ...pick(rotations, random), start } : null;
+};
+
+const QuizUtils = {
+    // Generate a question of the difficulty; random is swappable so tests get the same questions every run
+    generateQuestion: (difficulty: QuizDifficulty, random: () => number = Math.random): QuizQuestion => {
+        const { minSize, maxSize, kinds } = difficulties[difficulty];
+        const kind = pick(kinds, random);
+
+        let question: ReturnType<typeof tryQuestion> = null;
+        for (let attempt = 0; attempt < maxAttempts && !question; attempt++) {
+            const size = minSize + Math.floor(random() * (maxSize - minSize + 1));
+            question = tryQuestion(kind, size, random);
+        }
+        // Rare: fall back to a rotation, which every tree of two or more nodes allows
+        while (!question) {
+            question = tryQuestion('rotate-any', maxSize, random);
+        }
+
+        const { start, ...task } = question;
+        const answer = task.kind === 'rotate'
+            ? TreeUtils.rotateNodes(start, task.nodeId, task.direction)
+            : SequenceUtils.insertKey(start, task.value, task.mode);
+
+        return { prompt: describeTask(task, start), task, start, answer };
+    }
+};
+
+export default QuizUtils;
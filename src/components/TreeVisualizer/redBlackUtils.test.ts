@@ -0,0 +1,44 @@
+import RedBlackUtils from './redBlackUtils';
+import BSTUtils from './bstUtils';
+import TreeUtils from './treeUtils';
+import { TreeNode } from './types';
+
+// Insert a red node and apply every planned fix-up step
+const insertAndFix = (nodes: TreeNode[], value: number): TreeNode[] => {
+    const newNode: TreeNode = { id: `n${value}`, value, x: 0, y: 0, color: 'red' };
+    const path = BSTUtils.findSearchPath(nodes, value);
+    let result = path.parentId ? TreeUtils.attachChild(nodes, path.parentId, newNode, path.isLeft) : [...nodes, newNode];
+
+    RedBlackUtils.planInsertFixup(result, newNode.id).forEach(step => {
+        result = step.type === 'recolor'
+            ? RedBlackUtils.applyColorChanges(result, step.changes)
+            : TreeUtils.rotateNodes(result, step.nodeId, step.direction);
+    });
+    return result;
+};
+
+describe('RedBlackUtils', () => {
+    test('keeps the invariants through every fix-up case', () => {
+        let nodes: TreeNode[] = [];
+        [10, 20, 30, 15, 25, 5, 1, 27, 26, 22].forEach(value => {
+            nodes = insertAndFix(nodes, value);
+            expect(RedBlackUtils.checkInvariants(nodes)).toEqual([]);
+        });
+    });
+
+    test('rotates twice for an inner grandchild', () => {
+        let nodes = insertAndFix([], 30);
+        nodes = insertAndFix(nodes, 10);
+        const newNode: TreeNode = { id: 'n20', value: 20, x: 0, y: 0, color: 'red' };
+        const steps = RedBlackUtils.planInsertFixup(TreeUtils.attachChild(nodes, 'n10', newNode, false), 'n20');
+        expect(steps.map(step => step.type)).toEqual(['rotate', 'recolor', 'rotate']);
+    });
+
+    test('reports a red root and a red-red edge', () => {
+        const child: TreeNode = { id: 'c', value: 5, x: 0, y: 0, color: 'red' };
+        const root: TreeNode = { id: 'r', value: 10, x: 0, y: 0, color: 'red', left: child };
+        const violations = RedBlackUtils.checkInvariants([root, child]);
+        expect(violations).toContain('Root 10 is red');
+        expect(violations).toContain('Red node 10 has a red child 5');
+    });
+});
@@ -0,0 +1,165 @@
+// Red-black tree calculations: insertion fix-up planning and invariant checking
+import { TreeNode, NodeColor, ColorChange, RedBlackFixupStep } from './types';
+import TreeUtils from './treeUtils';
+
+const RedBlackUtils = {
+    // Colour every node that doesn't have a colour yet
+    colorUncoloredNodes: (nodes: TreeNode[], color: NodeColor): TreeNode[] => {
+        return TreeUtils.relinkNodes(nodes.map(node => ({ ...node, color: node.color ?? color })));
+    },
+
+    // Remove colours from every node (when leaving red-black mode)
+    clearColors: (nodes: TreeNode[]): TreeNode[] => {
+        return TreeUtils.relinkNodes(nodes.map(node => {
+            const { color, ...uncolored } = node;
+            return uncolored;
+        }));
+    },
+
+    // Return a copy of the nodes with colour changes applied
+    applyColorChanges: (nodes: TreeNode[], changes: ColorChange[]): TreeNode[] => {
+        const colorMap = new Map(changes.map(change => [change.nodeId, change.color]));
+        return TreeUtils.relinkNodes(nodes.map(node => {
+            const color = colorMap.get(node.id);
+            return color ? { ...node, color } : { ...node };
+        }));
+    },
+
+    // Plan the fix-up after inserting a red node, simulating each step on a copy of the tree
+    // Case 1: uncle is red -> recolour parent and uncle black, grandparent red, continue from the grandparent
+    // Case 2: uncle is black and the node is an inner grandchild -> rotate the parent to make it an outer grandchild
+    // Case 3: uncle is black and the node is an outer grandchild -> recolour and rotate the grandparent
+    planInsertFixup: (nodes: TreeNode[], insertedId: string): RedBlackFixupStep[] => {
+        const steps: RedBlackFixupStep[] = [];
+        let working = nodes;
+
+        const valueOf = (nodeId: string) => TreeUtils.findNodeById(working, nodeId)?.node.value;
+        const colorOf = (nodeId: string | undefined): NodeColor => {
+            if (!nodeId) return 'black'; // Empty (NIL) children are black
+            return TreeUtils.findNodeById(working, nodeId)?.node.color ?? 'black';
+        };
+        const recolor = (changes: ColorChange[], message: string) => {
+            steps.push({ type: 'recolor', changes, message });
+            working = RedBlackUtils.applyColorChanges(working, changes);
+        };
+
+        let currentId = insertedId;
+
+        // Guard against malformed trees: each pass moves up or finishes
+        for (let guard = 0; guard < nodes.length + 1; guard++) {
+            const parentInfo = TreeUtils.findParentNode(working, currentId);
+            if (!parentInfo || colorOf(parentInfo.parent.id) === 'black') break;
+
+            const parent = parentInfo.parent;
+            const grandparentInfo = TreeUtils.findParentNode(working, parent.id);
+            if (!grandparentInfo) break; // A red root is fixed below
+
+            const grandparent = grandparentInfo.parent;
+            const parentIsLeft = grandparentInfo.isLeftChild;
+            const uncleId = parentIsLeft ? grandparent.right?.id : grandparent.left?.id;
+
+            if (colorOf(uncleId) === 'red') {
+                recolor(
+                    [
+                        { nodeId: parent.id, color: 'black' },
+                        { nodeId: uncleId!, color: 'black' },
+                        { nodeId: grandparent.id, color: 'red' }
+                    ],
+                    `Parent ${parent.value} and uncle ${valueOf(uncleId!)} are both red: recolour them black and ` +
+                    `grandparent ${grandparent.value} red, then continue from ${grandparent.value}`
+                );
+                currentId = grandparent.id;
+                continue;
+            }
+
+            let outerId = currentId;
+            let outerParentId = parent.id;
+
+            // Case 2: turn the inner grandchild into an outer grandchild
+            if (parentInfo.isLeftChild !== parentIsLeft) {
+                const direction = parentIsLeft ? 'left' : 'right';
+                steps.push({
+                    type: 'rotate',
+                    nodeId: parent.id,
+                    direction,
+                    message: `Uncle is black and ${valueOf(currentId)} is an inner grandchild: ` +
+                        `rotate ${direction} at parent ${parent.value} to line it up`
+                });
+                working = TreeUtils.rotateNodes(working, parent.id, direction);
+                outerId = parent.id;
+                outerParentId = currentId;
+            }
+
+            // Case 3: recolour, then rotate the grandparent the other way
+            recolor(
+                [
+                    { nodeId: outerParentId, color: 'black' },
+                    { nodeId: grandparent.id, color: 'red' }
+                ],
+                `Uncle is black and ${valueOf(outerId)} is an outer grandchild: ` +
+                `recolour ${valueOf(outerParentId)} black and grandparent ${grandparent.value} red`
+            );
+            const direction = parentIsLeft ? 'right' : 'left';
+            steps.push({
+                type: 'rotate',
+                nodeId: grandparent.id,
+                direction,
+                message: `Rotate ${direction} at grandparent ${grandparent.value}`
+            });
+            working = TreeUtils.rotateNodes(working, grandparent.id, direction);
+            break;
+        }
+
+        // The root is always black
+        const rootId = TreeUtils.getAncestorPath(working, insertedId).pop();
+        if (rootId && colorOf(rootId) === 'red') {
+            recolor([{ nodeId: rootId, color: 'black' }], `The root ${valueOf(rootId)} must be black: recolour it`);
+        }
+
+        return steps;
+    },
+
+    // Check the red-black properties, returning a description of each violation
+    checkInvariants: (nodes: TreeNode[]): string[] => {
+        const violations: string[] = [];
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+
+        const uncolored = nodes.filter(node => !node.color);
+        if (uncolored.length > 0) {
+            violations.push(`${uncolored.map(node => node.value).join(', ')} ${uncolored.length === 1 ? 'has' : 'have'} no colour`);
+        }
+
+        TreeUtils.findRootNodes(nodes).forEach(root => {
+            if (root.color === 'red') {
+                violations.push(`Root ${root.value} is red`);
+            }
+        });
+
+        // Returns the black height of a subtree, or -1 if its paths disagree
+        const blackHeight = (nodeId: string | undefined): number => {
+            if (!nodeId) return 1; // NIL leaves count as black
+            const node = nodeMap.get(nodeId);
+            if (!node) return 1;
+
+            [node.left, node.right].forEach(child => {
+                if (node.color === 'red' && child && nodeMap.get(child.id)?.color === 'red') {
+                    violations.push(`Red node ${node.value} has a red child ${nodeMap.get(child.id)?.value}`);
+                }
+            });
+
+            const leftHeight = blackHeight(node.left?.id);
+            const rightHeight = blackHeight(node.right?.id);
+            if (leftHeight === -1 || rightHeight === -1) return -1;
+            if (leftHeight !== rightHeight) {
+                violations.push(`Paths below ${node.value} have different black heights (${leftHeight} left, ${rightHeight} right)`);
+                return -1;
+            }
+            return leftHeight + (node.color === 'red' ? 0 : 1);
+        };
+
+        TreeUtils.findRootNodes(nodes).forEach(root => blackHeight(root.id));
+        return violations;
+    }
+};
+
+export default RedBlackUtils;
@@ -0,0 +1,95 @@
+import SaveUtils from './saveUtils';
+import TreeUtils from './treeUtils';
+import { TreeNode } from './types';
+
+// Build a flat node array for the tree 50(30(20,40),70)
+const buildTree = (): TreeNode[] => {
+    const n20: TreeNode = { id: 'n20', value: 20, x: 100, y: 220 };
+    const n40: TreeNode = { id: 'n40', value: 40, x: 300, y: 220 };
+    const n70: TreeNode = { id: 'n70', value: 70, x: 600, y: 140 };
+    const n30: TreeNode = { id: 'n30', value: 30, x: 200, y: 140, left: n20, right: n40 };
+    const n50: TreeNode = { id: 'n50', value: 50, x: 400, y: 60, left: n30, right: n70 };
+    return [n50, n30, n70, n20, n40];
+};
+
+describe('SaveUtils JSON files', () => {
+    test('round-trips values, structure and positions', () => {
+        const result = SaveUtils.parseJSON(SaveUtils.toJSON(buildTree(), 'avl'));
+        if (!result.ok) throw new Error(result.errors.join('; '));
+
+        expect(result.mode).toBe('avl');
+        expect(result.nodes.map(node => node.value)).toEqual([50, 30, 70, 20, 40]);
+        expect(result.nodes[0].left).toBe(result.nodes[1]);
+        expect(result.nodes[1].right).toBe(result.nodes[4]);
+        expect(result.nodes[4]).toMatchObject({ x: 300, y: 220 });
+    });
+
+    test('rejects documents that break BST ordering', () => {
+        const saved = SaveUtils.toSavedTree(buildTree(), 'bst');
+        saved.nodes[4].value = 60; // 60 sits in the left subtree of 50
+
+        const errors = SaveUtils.validateSavedTree(saved);
+        expect(errors).toEqual(['Node 60 is in the left subtree of 50 but is not less than it']);
+    });
+
+    test('rejects dangling child ids', () => {
+        const saved = SaveUtils.toSavedTree(buildTree(), 'bst');
+        saved.nodes[2].right = 'missing';
+
+        expect(SaveUtils.validateSavedTree(saved)).toEqual(['Node 70 has a right child "missing" that does not exist']);
+    });
+
+    test('rejects newer versions and malformed JSON', () => {
+        const saved = { ...SaveUtils.toSavedTree(buildTree(), 'bst'), version: 99 };
+        expect(SaveUtils.validateSavedTree(saved)[0]).toMatch(/newer version/);
+        expect(SaveUtils.parseJSON('{ not json')).toEqual({ ok: false, errors: ['The file is not valid JSON'] });
+    });
+});
+
+// Compression streams come from Node, since jsdom has none
+const { CompressionStream, DecompressionStream } = require('stream/web') as Record<string, unknown>;
+const setCompression = (available: boolean) => {
+    Object.assign(globalThis, available ? { CompressionStream, DecompressionStream } : { CompressionStream: undefined, DecompressionStream: undefined });
+};
+
+const blackTree = () => TreeUtils.relinkNodes(buildTree().map(node => ({ ...node, color: 'black' as const })));
+
+const expectBlackTree = (result: Awaited<ReturnType<typeof SaveUtils.decodeFragment>>) => {
+    if (!result.ok) throw new Error(result.errors.join('; '));
+    expect(result.mode).toBe('red-black');
+    expect(result.nodes.map(node => node.left?.value)).toEqual([30, 20, undefined, undefined, undefined]);
+    expect(result.nodes.every(node => node.color === 'black')).toBe(true);
+};
+
+describe('SaveUtils URL fragments', () => {
+    afterEach(() => setCompression(false));
+
+    test('round-trips the tree and colours', async () => {
+        setCompression(false);
+        const fragment = await SaveUtils.encodeFragment(blackTree(), 'red-black');
+        expect(fragment).toMatch(/^[A-Za-z0-9_-]+$/);
+        expectBlackTree(await SaveUtils.decodeFragment(fragment));
+    });
+
+    test('compresses where the browser can, into a shorter link', async () => {
+        setCompression(false);
+        const plain = await SaveUtils.encodeFragment(blackTree(), 'red-black');
+        setCompression(true);
+        const compressed = await SaveUtils.encodeFragment(blackTree(), 'red-black');
+
+        expect(compressed).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(compressed.length).toBeLessThan(plain.length);
+        expectBlackTree(await SaveUtils.decodeFragment(compressed));
+
+        setCompression(false);
+        expect(await SaveUtils.decodeFragment(compressed)).toEqual({ ok: false, errors: ['This browser cannot open compressed links'] });
+    });
+
+    test('reports damaged links and unknown versions', async () => {
+        expect((await SaveUtils.decodeFragment('%%%')).ok).toBe(false);
+        expect(await SaveUtils.decodeFragment(btoa('\u0009[]'))).toEqual({
+            ok: false,
+            errors: ['The link was made by a newer version of the visualiser']
+        });
+    });
+});
@@ -0,0 +1,297 @@
+// Saving and loading trees as versioned JSON documents and shareable URL fragments
+import { TreeNode, TreeMode, SavedNode, SavedTree, TreeLoadResult } from './types';
+import TreeUtils from './treeUtils';
+
+const saveFormat = 'cse-visualisations-tree';
+const saveVersion = 1;
+const treeModes: TreeMode[] = ['bst', 'avl', 'red-black', 'splay'];
+
+// Compact form used in URLs: [version, mode, [value, x, y, leftIndex, rightIndex, colour][]]
+// Children are array indices (-1 for none) and colours are 'r', 'b' or '' so links stay short
+type CompactNode = [number, number, number, number, number, string];
+type CompactTree = [number, TreeMode, CompactNode[]];
+
+// First byte of a link: how the JSON after it is stored
+const fragmentEncodings = { plain: 0, deflate: 1 };
+
+// Compression streams are missing from this TypeScript version's DOM types
+interface ByteStream {
+    readable: ReadableStream<Uint8Array>;
+    writable: WritableStream<Uint8Array>;
+}
+declare const CompressionStream: (new (format: 'deflate-raw') => ByteStream) | undefined;
+declare const DecompressionStream: (new (format: 'deflate-raw') => ByteStream) | undefined;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Base64url so the fragment survives being pasted into chat apps and slides
+const toBase64Url = (text: string): string => {
+    return btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    return atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+};
+
+// The compact JSON is plain ASCII, so each character is one byte
+const toBytes = (text: string): Uint8Array => Uint8Array.from(text, character => character.charCodeAt(0));
+
+const fromBytes = (bytes: Uint8Array): string => {
+    let text = '';
+    for (let i = 0; i < bytes.length; i += 8192) {
+        text += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 8192)));
+    }
+    return text;
+};
+
+// Run bytes through a compression or decompression stream
+const transformBytes = async (bytes: Uint8Array, stream: ByteStream): Promise<Uint8Array> => {
+    const writer = stream.writable.getWriter();
+    // Failures surface when reading, so the writer's own rejections are dropped
+    writer.write(bytes).catch(() => undefined);
+    writer.close().catch(() => undefined);
+
+    const reader = stream.readable.getReader();
+    const chunks: Uint8Array[] = [];
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        chunks.push(chunk.value);
+    }
+
+    const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    chunks.reduce((offset, chunk) => {
+        result.set(chunk, offset);
+        return offset + chunk.length;
+    }, 0);
+    return result;
+};
+
+const SaveUtils = {
+    // Build a saved document from the current tree
+    toSavedTree: (nodes: TreeNode[], mode: TreeMode): SavedTree => ({
+        format: saveFormat,
+        version: saveVersion,
+        mode,
+        nodes: nodes.map(node => {
+            const saved: SavedNode = { id: node.id, value: node.value, x: node.x, y: node.y };
+            if (node.left) saved.left = node.left.id;
+            if (node.right) saved.right = node.right.id;
+            if (node.color) saved.color = node.color;
+            return saved;
+        })
+    }),
+
+    // Rebuild tree nodes from a saved document that has already been validated
+    fromSavedTree: (saved: SavedTree): TreeNode[] => {
+        const nodes: TreeNode[] = saved.nodes.map(({ id, value, x, y, color }) => (
+            color ? { id, value, x, y, color } : { id, value, x, y }
+        ));
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+
+        saved.nodes.forEach(savedNode => {
+            const node = nodeMap.get(savedNode.id)!;
+            if (savedNode.left) node.left = nodeMap.get(savedNode.left);
+            if (savedNode.right) node.right = nodeMap.get(savedNode.right);
+        });
+
+        return nodes;
+    },
+
+    // Check a parsed document, returning a description of every problem found
+    validateSavedTree: (data: unknown): string[] => {
+        if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+            return ['The document is not a saved tree'];
+        }
+
+        const tree = data as Partial<SavedTree>;
+        if (tree.format !== saveFormat) {
+            return ['The document is not a saved tree'];
+        }
+        if (!isFiniteNumber(tree.version)) {
+            return ['The document has no version number'];
+        }
+        if (tree.version > saveVersion) {
+            return [`The document was saved by a newer version (${tree.version}) of the visualiser`];
+        }
+
+        const errors: string[] = [];
+        if (!treeModes.includes(tree.mode as TreeMode)) {
+            errors.push(`Unknown tree mode "${tree.mode}"`);
+        }
+        if (!Array.isArray(tree.nodes)) {
+            errors.push('The document has no node list');
+            return errors;
+        }
+
+        // Field checks for each node
+        const savedNodes = new Map<string, SavedNode>();
+        tree.nodes.forEach((node: SavedNode, index) => {
+            const name = `Node ${index + 1}`;
+            if (typeof node !== 'object' || node === null) {
+                errors.push(`${name} is not an object`);
+                return;
+            }
+            if (typeof node.id !== 'string' || node.id === '') {
+                errors.push(`${name} has no id`);
+                return;
+            }
+            if (savedNodes.has(node.id)) {
+                errors.push(`${name} reuses the id "${node.id}"`);
+                return;
+            }
+            if (!isFiniteNumber(node.value)) errors.push(`${name} has no numeric value`);
+            if (!isFiniteNumber(node.x) || !isFiniteNumber(node.y)) errors.push(`${name} has no position`);
+            if (node.color !== undefined && node.color !== 'red' && node.color !== 'black') {
+                errors.push(`${name} has an unknown colour "${node.color}"`);
+            }
+            savedNodes.set(node.id, node);
+        });
+        if (errors.length > 0) return errors;
+
+        // Child references must point at existing nodes, and each node may have only one parent
+        const parentOf = new Map<string, string>();
+        savedNodes.forEach(node => {
+            (['left', 'right'] as const).forEach(side => {
+                const childId = node[side];
+                if (childId == null) return; // No child
+
+                if (typeof childId !== 'string' || !savedNodes.has(childId)) {
+                    errors.push(`Node ${node.value} has a ${side} child "${childId}" that does not exist`);
+                } else if (childId === node.id) {
+                    errors.push(`Node ${node.value} is its own ${side} child`);
+                } else if (parentOf.has(childId)) {
+                    errors.push(`Node ${savedNodes.get(childId)!.value} has more than one parent`);
+                } else {
+                    parentOf.set(childId, node.id);
+                }
+            });
+        });
+        if (errors.length > 0) return errors;
+
+        // Every key must sit between the bounds set by its ancestors
+        const visited = new Set<string>();
+        const checkOrdering = (nodeId: string | undefined, min: SavedNode | null, max: SavedNode | null) => {
+            if (!nodeId || visited.has(nodeId)) return;
+            visited.add(nodeId);
+
+            const node = savedNodes.get(nodeId)!;
+            if (min && node.value <= min.value) {
+                errors.push(`Node ${node.value} is in the right subtree of ${min.value} but is not greater than it`);
+            }
+            if (max && node.value >= max.value) {
+                errors.push(`Node ${node.value} is in the left subtree of ${max.value} but is not less than it`);
+            }
+            checkOrdering(node.left, min, node);
+            checkOrdering(node.right, node, max);
+        };
+        savedNodes.forEach(node => {
+            if (!parentOf.has(node.id)) checkOrdering(node.id, null, null);
+        });
+
+        // Nodes never reached from a root must be part of a cycle
+        if (visited.size < savedNodes.size) {
+            errors.push('The child links form a cycle');
+        }
+
+        return errors;
+    },
+
+    // Validate a parsed document and rebuild the tree from it
+    loadSavedTree: (data: unknown): TreeLoadResult => {
+        const errors = SaveUtils.validateSavedTree(data);
+        if (errors.length > 0) return { ok: false, errors };
+
+        const saved = data as SavedTree;
+        return { ok: true, nodes: SaveUtils.fromSavedTree(saved), mode: saved.mode };
+    },
+
+    // Pretty-printed JSON for saving to a file
+    toJSON: (nodes: TreeNode[], mode: TreeMode): string => {
+        return JSON.stringify(SaveUtils.toSavedTree(nodes, mode), null, 2);
+    },
+
+    // Parse and validate the contents of a saved file
+    parseJSON: (text: string): TreeLoadResult => {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            return { ok: false, errors: ['The file is not valid JSON'] };
+        }
+        return SaveUtils.loadSavedTree(data);
+    },
+
+    // Encode the tree into a short string for a URL fragment
+    // Positions are rounded to whole pixels and ids are replaced by array indices, then the JSON is
+    // deflated where the browser can (and it helps), behind a byte saying which was done
+    encodeFragment: async (nodes: TreeNode[], mode: TreeMode): Promise<string> => {
+        const indexMap = TreeUtils.buildNodeIndexMap(nodes);
+        const indexOf = (child?: TreeNode) => child ? indexMap.get(child.id) ?? -1 : -1;
+
+        const compact: CompactTree = [saveVersion, mode, nodes.map(node => [
+            node.value,
+            Math.round(node.x),
+            Math.round(node.y),
+            indexOf(node.left),
+            indexOf(node.right),
+            node.color ? node.color[0] : ''
+        ])];
+        const json = JSON.stringify(compact);
+
+        if (typeof CompressionStream !== 'undefined') {
+            const compressed = await transformBytes(toBytes(json), new CompressionStream('deflate-raw'));
+            if (compressed.length < json.length) {
+                return toBase64Url(String.fromCharCode(fragmentEncodings.deflate) + fromBytes(compressed));
+            }
+        }
+        return toBase64Url(String.fromCharCode(fragmentEncodings.plain) + json);
+    },
+
+    // Decode a URL fragment back into a tree, applying the same validation as files
+    decodeFragment: async (fragment: string): Promise<TreeLoadResult> => {
+        let compact: unknown;
+        try {
+            const data = fromBase64Url(fragment);
+            const encoding = data.charCodeAt(0);
+            let json: string;
+
+            if (encoding === fragmentEncodings.plain) {
+                json = data.slice(1);
+            } else if (encoding === fragmentEncodings.deflate) {
+                if (typeof DecompressionStream === 'undefined') {
+                    return { ok: false, errors: ['This browser cannot open compressed links'] };
+                }
+                json = fromBytes(await transformBytes(toBytes(data.slice(1)), new DecompressionStream('deflate-raw')));
+            } else {
+                return { ok: false, errors: ['The link was made by a newer version of the visualiser'] };
+            }
+            compact = JSON.parse(json);
+        } catch {
+            return { ok: false, errors: ['The link is damaged or incomplete'] };
+        }
+        if (!Array.isArray(compact) || compact.length !== 3 || !Array.isArray(compact[2])) {
+            return { ok: false, errors: ['The link does not contain a tree'] };
+        }
+
+        const [version, mode, compactNodes] = compact as CompactTree;
+        const idOf = (index: number) => index >= 0 ? `node-${index}` : undefined;
+        const colors: Record<string, SavedNode['color']> = { r: 'red', b: 'black' };
+
+        // Expand into a full document so files and links share one validator
+        const saved = {
+            format: saveFormat,
+            version,
+            mode,
+            nodes: compactNodes.map((compactNode, index) => {
+                if (!Array.isArray(compactNode)) return null;
+                const [value, x, y, left, right, color] = compactNode;
+                const node: SavedNode = { id: `node-${index}`, value, x, y, left: idOf(left), right: idOf(right) };
+                if (color) node.color = colors[color] ?? (color as SavedNode['color']);
+                return node;
+            })
+        };
+        return SaveUtils.loadSavedTree(saved);
+    }
+};
+
+export default SaveUtils;
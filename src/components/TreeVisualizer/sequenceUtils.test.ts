@@ -0,0 +1,63 @@
+import SequenceUtils from './sequenceUtils';
+import TreeUtils from './treeUtils';
+import AVLUtils from './avlUtils';
+import RedBlackUtils from './redBlackUtils';
+import { TreeNode } from './types';
+
+// Describe a tree as nested text, e.g. 50(30(,40),70)
+const showTree = (nodes: TreeNode[]): string => {
+    const nodeMap = TreeUtils.buildNodeMap(nodes);
+    const show = (nodeId?: string): string => {
+        const node = nodeId ? nodeMap.get(nodeId) : undefined;
+        if (!node) return '';
+        if (!node.left && !node.right) return `${node.value}`;
+        return `${node.value}(${show(node.left?.id)},${show(node.right?.id)})`;
+    };
+    return show(TreeUtils.findRootNode(nodes)?.id);
+};
+
+describe('SequenceUtils.parseBuildInput', () => {
+    test('reads an insertion sequence', () => {
+        expect(SequenceUtils.parseBuildInput('insert 50 30 70 20 40')).toEqual({
+            ok: true, keys: [50, 30, 70, 20, 40], format: 'sequence'
+        });
+        expect(SequenceUtils.parseBuildInput('5, 3, 8')).toEqual({ ok: true, keys: [5, 3, 8], format: 'sequence' });
+    });
+
+    test('reads a level-order array', () => {
+        expect(SequenceUtils.parseBuildInput('[50,30,70,null,40]')).toEqual({
+            ok: true, keys: [50, 30, 70, 40], format: 'level-order'
+        });
+    });
+
+    test('reports bad keys and arrays that are not BSTs', () => {
+        expect(SequenceUtils.parseBuildInput('insert 50 abc')).toEqual({ ok: false, error: '"abc" is not a whole number' });
+        expect(SequenceUtils.parseBuildInput('[50,30,70,60]')).toEqual({
+            ok: false, error: '60 cannot be the left child of 30: it must be less than 30'
+        });
+        expect(SequenceUtils.parseBuildInput('[50,null,70,null,null,80]').ok).toBe(false);
+    });
+});
+
+describe('SequenceUtils.buildTree', () => {
+    test('rebuilds the tree a level-order array describes', () => {
+        const input = SequenceUtils.parseBuildInput('[50,30,70,null,40,60]');
+        if (!input.ok) throw new Error(input.error);
+        expect(showTree(SequenceUtils.buildTree(input.keys, 'bst'))).toBe('50(30(,40),70(60,))');
+    });
+
+    test('skips duplicates', () => {
+        expect(SequenceUtils.buildTree([2, 1, 2, 3], 'bst')).toHaveLength(3);
+    });
+
+    test('rebalances while building in AVL mode', () => {
+        const nodes = SequenceUtils.buildTree([1, 2, 3, 4, 5, 6, 7], 'avl');
+        expect(showTree(nodes)).toBe('4(2(1,3),6(5,7))');
+        expect(Math.max(...Array.from(AVLUtils.calculateHeights(nodes).values()))).toBe(2);
+    });
+
+    test('keeps the red-black invariants', () => {
+        const nodes = SequenceUtils.buildTree([10, 20, 30, 15, 25, 5, 1], 'red-black');
+        expect(RedBlackUtils.checkInvariants(nodes)).toEqual([]);
+    });
+});
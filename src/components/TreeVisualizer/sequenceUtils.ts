@@ -0,0 +1,118 @@
+// Building trees from typed input: insertion sequences like "insert 50 30 70"
+// and level-order arrays like "[50,30,70,null,40]"
+import { TreeNode, TreeMode, BuildInput } from './types';
+import TreeUtils from './treeUtils';
+import BSTUtils from './bstUtils';
+import AVLUtils from './avlUtils';
+import RedBlackUtils from './redBlackUtils';
+import SplayUtils from './splayUtils';
+
+// Parse one whole-number key, or null for an empty slot when allowed
+const parseKey = (token: string, allowNull: boolean): number | null => {
+    if (allowNull && token.toLowerCase() === 'null') return null;
+    if (!/^-?\d+$/.test(token)) throw new Error(`"${token}" is not a whole number`);
+    return parseInt(token, 10);
+};
+
+const SequenceUtils = {
+    // Work out which format was typed and return the keys in the order they should be inserted
+    parseBuildInput: (text: string): BuildInput => {
+        const trimmed = text.trim();
+        try {
+            if (trimmed.startsWith('[')) {
+                if (!trimmed.endsWith(']')) throw new Error('The level-order array is missing its closing "]"');
+                const tokens = trimmed.slice(1, -1).split(',').map(token => token.trim()).filter(token => token !== '');
+                const slots = tokens.map(token => parseKey(token, true));
+                return { ok: true, keys: SequenceUtils.levelOrderToKeys(slots), format: 'level-order' };
+            }
+
+            // "insert" is optional so a bare list of keys works too
+            const tokens = trimmed.replace(/^insert\b/i, '').split(/[\s,]+/).filter(token => token !== '');
+            if (tokens.length === 0) throw new Error('Type some keys to insert, e.g. "insert 50 30 70"');
+            return { ok: true, keys: tokens.map(token => parseKey(token, false)!), format: 'sequence' };
+        } catch (error) {
+            return { ok: false, error: (error as Error).message };
+        }
+    },
+
+    // Check that a level-order array describes a BST and list its keys in level order
+    // Empty slots are written as null and, as on LeetCode, have no children listed after them
+    // Inserting the keys in level order rebuilds exactly the tree the array describes
+    levelOrderToKeys: (slots: (number | null)[]): number[] => {
+        if (slots.length === 0 || slots[0] === null) return [];
+
+        // Each queued entry carries the bounds set by its ancestors
+        type Bound = number | null;
+        const queue: { value: number, min: Bound, max: Bound }[] = [];
+        const keys: number[] = [];
+
+        const place = (value: number, min: Bound, max: Bound, parent: number | null, isLeft: boolean) => {
+            if (min !== null && value <= min) {
+                throw new Error(`${value} cannot be the ${isLeft ? 'left' : 'right'} child of ${parent}: it must be greater than ${min}`);
+            }
+            if (max !== null && value >= max) {
+                throw new Error(`${value} cannot be the ${isLeft ? 'left' : 'right'} child of ${parent}: it must be less than ${max}`);
+            }
+            queue.push({ value, min, max });
+            keys.push(value);
+        };
+
+        place(slots[0], null, null, null, false);
+        let index = 1;
+        for (let head = 0; head < queue.length && index < slots.length; head++) {
+            const { value, min, max } = queue[head];
+            const left = slots[index++];
+            if (left !== null && left !== undefined) place(left, min, value, value, true);
+            const right = index < slots.length ? slots[index++] : null;
+            if (right !== null && right !== undefined) place(right, value, max, value, false);
+        }
+
+        if (index < slots.length) {
+            throw new Error(`The array has ${slots.length - index} more entr${slots.length - index === 1 ? 'y' : 'ies'} than the tree has empty slots`);
+        }
+        return keys;
+    },
+
+    // Insert a key the same way the visualiser does, including any rebalancing for the mode,
+    // applying every step straight away instead of animating it
+    insertKey: (nodes: TreeNode[], value: number, mode: TreeMode): TreeNode[] => {
+        const path = BSTUtils.findSearchPath(nodes, value);
+        if (path.found) return nodes;
+
+        const newNode: TreeNode = {
+            id: TreeUtils.generateId(),
+            value,
+            x: 0,
+            y: 0,
+            color: mode === 'red-black' ? 'red' : undefined
+        };
+        let result = path.parentId
+            ? TreeUtils.attachChild(nodes, path.parentId, newNode, path.isLeft)
+            : [...nodes, newNode];
+
+        if (mode === 'avl' && path.parentId) {
+            AVLUtils.planRebalance(result, path.parentId).rotations.forEach(({ nodeId, direction }) => {
+                result = TreeUtils.rotateNodes(result, nodeId, direction);
+            });
+        } else if (mode === 'red-black') {
+            RedBlackUtils.planInsertFixup(result, newNode.id).forEach(step => {
+                result = step.type === 'recolor'
+                    ? RedBlackUtils.applyColorChanges(result, step.changes)
+                    : TreeUtils.rotateNodes(result, step.nodeId, step.direction);
+            });
+        } else if (mode === 'splay') {
+            SplayUtils.planSplay(result, newNode.id).forEach(({ nodeId, direction }) => {
+                result = TreeUtils.rotateNodes(result, nodeId, direction);
+            });
+        }
+
+        return result;
+    },
+
+    // Build a whole tree from keys in insertion order; duplicates are skipped
+    buildTree: (keys: number[], mode: TreeMode): TreeNode[] => {
+        return keys.reduce((nodes, key) => SequenceUtils.insertKey(nodes, key, mode), [] as TreeNode[]);
+    }
+};
+
+export default SequenceUtils;
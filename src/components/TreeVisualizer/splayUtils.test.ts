@@ -0,0 +1,111 @@
+import SplayUtils from './splayUtils';
+import BSTUtils from './bstUtils';
+import TreeUtils from './treeUtils';
+import { TreeNode } from './types';
+
+// Build a plain BST by inserting the keys in order, with each node's id taken from its key
+const buildTree = (keys: number[]): TreeNode[] => keys.reduce((nodes: TreeNode[], value) => {
+    const node: TreeNode = { id: `n${value}`, value, x: 0, y: 0 };
+    const path = BSTUtils.findSearchPath(nodes, value);
+    return path.parentId ? TreeUtils.attachChild(nodes, path.parentId, node, path.isLeft) : [...nodes, node];
+}, []);
+
+const idIn = (nodes: TreeNode[], value: number) => nodes.find(node => node.value === value)!.id;
+
+// Keys in order under the main root
+const inOrderKeys = (nodes: TreeNode[]): number[] => {
+    const nodeMap = TreeUtils.buildNodeMap(nodes);
+    const visit = (nodeId: string | undefined): number[] => {
+        const node = nodeId ? nodeMap.get(nodeId) : undefined;
+        return node ? [...visit(node.left?.id), node.value, ...visit(node.right?.id)] : [];
+    };
+    return visit(TreeUtils.findRootNode(nodes)?.id);
+};
+
+// Plan a splay and apply it, returning the planned steps (as key and direction) and the splayed tree
+const splay = (nodes: TreeNode[], value: number) => {
+    const rotations = SplayUtils.planSplay(nodes, idIn(nodes, value));
+    const splayed = rotations.reduce((working, { nodeId, direction }) => TreeUtils.rotateNodes(working, nodeId, direction), nodes);
+    const steps = rotations.map(({ nodeId, direction }) => `${direction} at ${nodes.find(node => node.id === nodeId)!.value}`);
+    return { steps, splayed };
+};
+
+const expectSplayedToRoot = (nodes: TreeNode[], splayed: TreeNode[], value: number) => {
+    expect(TreeUtils.findRootNode(splayed)?.value).toBe(value);
+    expect(inOrderKeys(splayed)).toEqual(inOrderKeys(nodes));
+};
+
+describe('SplayUtils.getSplayCase', () => {
+    // 50(30(20,40),70)
+    const nodes = buildTree([50, 30, 70, 20, 40]);
+
+    test('names the case from the parent and grandparent', () => {
+        expect(SplayUtils.getSplayCase(nodes, idIn(nodes, 30))).toBe('zig');
+        expect(SplayUtils.getSplayCase(nodes, idIn(nodes, 20))).toBe('zig-zig');
+        expect(SplayUtils.getSplayCase(nodes, idIn(nodes, 40))).toBe('zig-zag');
+        expect(SplayUtils.getSplayCase(nodes, idIn(nodes, 50))).toBeNull();
+    });
+});
+
+describe('SplayUtils.planSplay', () => {
+    test('zig rotates once at the root, on either side', () => {
+        const nodes = buildTree([50, 30, 70]);
+
+        const left = splay(nodes, 30);
+        expect(left.steps).toEqual(['right at 50']);
+        expectSplayedToRoot(nodes, left.splayed, 30);
+
+        const right = splay(nodes, 70);
+        expect(right.steps).toEqual(['left at 50']);
+        expectSplayedToRoot(nodes, right.splayed, 70);
+    });
+
+    test('zig-zig rotates at the grandparent before the parent', () => {
+        const leftLeft = buildTree([50, 30, 20]);
+        const left = splay(leftLeft, 20);
+        expect(left.steps).toEqual(['right at 50', 'right at 30']);
+        expectSplayedToRoot(leftLeft, left.splayed, 20);
+
+        const rightRight = buildTree([50, 70, 80]);
+        const right = splay(rightRight, 80);
+        expect(right.steps).toEqual(['left at 50', 'left at 70']);
+        expectSplayedToRoot(rightRight, right.splayed, 80);
+    });
+
+    test('zig-zag rotates at the parent before the grandparent', () => {
+        const leftRight = buildTree([50, 30, 40]);
+        const left = splay(leftRight, 40);
+        expect(left.steps).toEqual(['left at 30', 'right at 50']);
+        expectSplayedToRoot(leftRight, left.splayed, 40);
+
+        const rightLeft = buildTree([50, 70, 60]);
+        const right = splay(rightLeft, 60);
+        expect(right.steps).toEqual(['right at 70', 'left at 50']);
+        expectSplayedToRoot(rightLeft, right.splayed, 60);
+    });
+
+    test('chains steps until a deep node reaches the root', () => {
+        // 50(30(20(10,),40),70): 10 is splayed by a zig-zig, then a zig
+        const nodes = buildTree([50, 30, 70, 20, 40, 10]);
+        const { steps, splayed } = splay(nodes, 10);
+        expect(steps).toEqual(['right at 30', 'right at 20', 'right at 50']);
+        expectSplayedToRoot(nodes, splayed, 10);
+    });
+
+    test('plans nothing for the root', () => {
+        const nodes = buildTree([50, 30, 70]);
+        expect(SplayUtils.planSplay(nodes, idIn(nodes, 50))).toEqual([]);
+    });
+
+    test('splays the last node reached when a search misses', () => {
+        // 50(30(20,40),70): searching for 45 ends at 40
+        const nodes = buildTree([50, 30, 70, 20, 40]);
+        const path = BSTUtils.findSearchPath(nodes, 45);
+        const lastId = path.visitedIds[path.visitedIds.length - 1];
+        expect(path.found).toBe(false);
+
+        const { steps, splayed } = splay(nodes, nodes.find(node => node.id === lastId)!.value);
+        expect(steps).toEqual(['left at 30', 'right at 50']);
+        expectSplayedToRoot(nodes, splayed, 40);
+    });
+});
@@ -0,0 +1,65 @@
+// Splay tree calculations: the zig, zig-zig and zig-zag steps that move a node to the root
+import { TreeNode, SplayCase, QueuedRotation, RotationDirection } from './types';
+import TreeUtils from './treeUtils';
+
+const SplayUtils = {
+    // Work out which splay case applies to a node from its parent and grandparent
+    getSplayCase: (nodes: TreeNode[], nodeId: string): SplayCase | null => {
+        const parentInfo = TreeUtils.findParentNode(nodes, nodeId);
+        if (!parentInfo) return null;
+
+        const grandparentInfo = TreeUtils.findParentNode(nodes, parentInfo.parent.id);
+        if (!grandparentInfo) return 'zig';
+
+        return parentInfo.isLeftChild === grandparentInfo.isLeftChild ? 'zig-zig' : 'zig-zag';
+    },
+
+    // Plan every rotation needed to splay a node to the root, simulating each step on a copy
+    // zig: the parent is the root, so rotate once at the parent
+    // zig-zig: node and parent are both left (or both right) children, so rotate at the grandparent, then the parent
+    // zig-zag: one is a left child and the other a right child, so rotate at the parent, then the grandparent
+    planSplay: (nodes: TreeNode[], nodeId: string): QueuedRotation[] => {
+        const rotations: QueuedRotation[] = [];
+        let working = nodes;
+
+        const value = TreeUtils.findNodeById(nodes, nodeId)?.node.value;
+        const rotateTowards = (isLeftChild: boolean): RotationDirection => isLeftChild ? 'right' : 'left';
+        const queue = (targetId: string, direction: RotationDirection, message: string) => {
+            rotations.push({ type: 'rotate', nodeId: targetId, direction, message });
+            working = TreeUtils.rotateNodes(working, targetId, direction);
+        };
+
+        // Guard against malformed trees: every step moves the node up at least one level
+        for (let guard = 0; guard < nodes.length; guard++) {
+            const splayCase = SplayUtils.getSplayCase(working, nodeId);
+            if (!splayCase) break;
+
+            const parentInfo = TreeUtils.findParentNode(working, nodeId)!;
+            const parent = parentInfo.parent;
+
+            if (splayCase === 'zig') {
+                const direction = rotateTowards(parentInfo.isLeftChild);
+                queue(parent.id, direction, `Zig: ${value}'s parent ${parent.value} is the root, so rotate ${direction} at ${parent.value}`);
+                continue;
+            }
+
+            const grandparentInfo = TreeUtils.findParentNode(working, parent.id)!;
+            const grandparent = grandparentInfo.parent;
+
+            if (splayCase === 'zig-zig') {
+                const direction = rotateTowards(parentInfo.isLeftChild);
+                queue(grandparent.id, direction, `Zig-zig (1 of 2): ${value} and its parent ${parent.value} are both ${parentInfo.isLeftChild ? 'left' : 'right'} children, so rotate ${direction} at grandparent ${grandparent.value} first`);
+                queue(parent.id, direction, `Zig-zig (2 of 2): rotate ${direction} at ${parent.value}`);
+            } else {
+                const firstDirection = rotateTowards(parentInfo.isLeftChild);
+                const secondDirection = rotateTowards(grandparentInfo.isLeftChild);
+                queue(parent.id, firstDirection, `Zig-zag (1 of 2): ${value} is an inner grandchild, so rotate ${firstDirection} at parent ${parent.value}`);
+                queue(grandparent.id, secondDirection, `Zig-zag (2 of 2): rotate ${secondDirection} at grandparent ${grandparent.value}`);
+            }
+        }
+
+        return rotations;
+    }
+};
+
+export default SplayUtils;
@@ -0,0 +1,60 @@
+import StatsUtils from './statsUtils';
+import SequenceUtils from './sequenceUtils';
+
+describe('StatsUtils.calculateTreeStats', () => {
+    test('describes a perfect tree', () => {
+        const stats = StatsUtils.calculateTreeStats(SequenceUtils.buildTree([4, 2, 6, 1, 3, 5, 7], 'bst'));
+        expect(stats).toEqual({
+            count: 7,
+            height: 2,
+            leaves: 4,
+            min: 1,
+            max: 7,
+            isPerfect: true,
+            isPerfectlyBalanced: true,
+            isComplete: true,
+            isDegenerate: false,
+            averageSearchCost: 17 / 7
+        });
+    });
+
+    test('tells complete trees from incomplete ones', () => {
+        expect(StatsUtils.calculateTreeStats(SequenceUtils.buildTree([4, 2, 6, 1], 'bst')).isComplete).toBe(true);
+        expect(StatsUtils.calculateTreeStats(SequenceUtils.buildTree([4, 2, 6, 3], 'bst')).isComplete).toBe(false);
+    });
+
+    test('checks perfect balance by subtree sizes, not full levels', () => {
+        const twoNodes = StatsUtils.calculateTreeStats(SequenceUtils.buildTree([2, 1], 'bst'));
+        expect(twoNodes.isPerfectlyBalanced).toBe(true);
+        expect(twoNodes.isPerfect).toBe(false);
+
+        // 4(2(1,3),6(5,)): sizes 3 and 2 at the root, 1 and 0 at 6
+        expect(StatsUtils.calculateTreeStats(SequenceUtils.buildTree([4, 2, 6, 1, 3, 5], 'bst')).isPerfectlyBalanced).toBe(true);
+        expect(StatsUtils.calculateTreeStats(SequenceUtils.buildTree([1, 2, 3], 'bst')).isPerfectlyBalanced).toBe(false);
+    });
+
+    test('spots a degenerate tree', () => {
+        const stats = StatsUtils.calculateTreeStats(SequenceUtils.buildTree([1, 2, 3, 4], 'bst'));
+        expect(stats.isDegenerate).toBe(true);
+        expect(stats.height).toBe(3);
+        expect(stats.averageSearchCost).toBe(2.5);
+    });
+
+    test('handles an empty tree', () => {
+        const stats = StatsUtils.calculateTreeStats([]);
+        expect(stats.count).toBe(0);
+        expect(stats.height).toBe(-1);
+        expect(stats.min).toBeNull();
+    });
+});
+
+describe('StatsUtils.calculateNodeStats', () => {
+    test('gives depth, subtree size and height for each node', () => {
+        const nodes = SequenceUtils.buildTree([50, 30, 70, 20, 40, 35], 'bst');
+        const stats = StatsUtils.calculateNodeStats(nodes);
+        const idOf = (value: number) => nodes.find(node => node.value === value)!.id;
+
+        expect(stats.get(idOf(30))).toEqual({ depth: 1, size: 4, height: 2 });
+        expect(stats.get(idOf(35))).toEqual({ depth: 3, size: 1, height: 0 });
+    });
+});
@@ -0,0 +1,80 @@
+// Tree statistics: size, height and shape of the tree, and depth and subtree size of each node
+// Heights follow the COMP2521 convention: an empty tree has height -1 and a leaf has height 0
+import { TreeNode, TreeStats, NodeStats } from './types';
+import TreeUtils from './treeUtils';
+
+const StatsUtils = {
+    // Depth, subtree size and subtree height of every node in the tree under the main root
+    calculateNodeStats: (nodes: TreeNode[]): Map<string, NodeStats> => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const stats = new Map<string, NodeStats>();
+
+        const visit = (nodeId: string | undefined, depth: number): NodeStats | null => {
+            const node = nodeId ? nodeMap.get(nodeId) : undefined;
+            if (!node || stats.has(node.id)) return null;
+
+            // Placeholder guards against cycles while the children are visited
+            const nodeStats: NodeStats = { depth, size: 1, height: 0 };
+            stats.set(node.id, nodeStats);
+
+            const left = visit(node.left?.id, depth + 1);
+            const right = visit(node.right?.id, depth + 1);
+            nodeStats.size += (left?.size ?? 0) + (right?.size ?? 0);
+            nodeStats.height = 1 + Math.max(left?.height ?? -1, right?.height ?? -1);
+            return nodeStats;
+        };
+
+        visit(TreeUtils.findRootNode(nodes)?.id, 0);
+        return stats;
+    },
+
+    // Statistics for the tree under the main root
+    calculateTreeStats: (nodes: TreeNode[]): TreeStats => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const nodeStats = StatsUtils.calculateNodeStats(nodes);
+        const root = TreeUtils.findRootNode(nodes);
+        const treeNodes = Array.from(nodeStats.keys()).map(id => nodeMap.get(id)!);
+
+        const count = treeNodes.length;
+        const height = root ? nodeStats.get(root.id)!.height : -1;
+        const values = treeNodes.map(node => node.value);
+        const childCount = (node: TreeNode) => (node.left ? 1 : 0) + (node.right ? 1 : 0);
+
+        // Complete: numbering nodes level by level as in a heap, no number reaches the node count
+        let isComplete = true;
+        const queue: { id: string, index: number }[] = root ? [{ id: root.id, index: 0 }] : [];
+        while (queue.length > 0) {
+            const { id, index } = queue.shift()!;
+            const node = nodeMap.get(id);
+            if (!node) continue;
+            if (index >= count) {
+                isComplete = false;
+                break;
+            }
+            if (node.left && nodeStats.has(node.left.id)) queue.push({ id: node.left.id, index: 2 * index + 1 });
+            if (node.right && nodeStats.has(node.right.id)) queue.push({ id: node.right.id, index: 2 * index + 2 });
+        }
+
+        // Perfectly balanced: at every node the two subtree sizes differ by at most one
+        const sizeOf = (child: TreeNode | undefined) => (child ? nodeStats.get(child.id)?.size ?? 0 : 0);
+        const isPerfectlyBalanced = treeNodes.every(node => Math.abs(sizeOf(node.left) - sizeOf(node.right)) <= 1);
+
+        const totalDepth = Array.from(nodeStats.values()).reduce((sum, stats) => sum + stats.depth, 0);
+
+        return {
+            count,
+            height,
+            leaves: treeNodes.filter(node => childCount(node) === 0).length,
+            min: count > 0 ? Math.min(...values) : null,
+            max: count > 0 ? Math.max(...values) : null,
+            isPerfect: count > 0 && count === Math.pow(2, height + 1) - 1,
+            isPerfectlyBalanced: count > 0 && isPerfectlyBalanced,
+            isComplete: count > 0 && isComplete,
+            isDegenerate: count > 0 && treeNodes.every(node => childCount(node) < 2),
+            // Finding a key at depth d takes d + 1 comparisons
+            averageSearchCost: count > 0 ? (totalDepth + count) / count : 0
+        };
+    }
+};
+
+export default StatsUtils;
@@ -0,0 +1,92 @@
+import TimelineUtils from './timelineUtils';
+import AnimationUtils from './animationUtils';
+import SequenceUtils from './sequenceUtils';
+import { Keyframe, Timeline } from './types';
+
+describe('TimelineUtils.ease', () => {
+    test('every curve runs from 0 to 1 and clamps outside that range', () => {
+        (['linear', 'ease-in', 'ease-out', 'ease-in-out'] as const).forEach(easing => {
+            expect(TimelineUtils.ease(easing, 0)).toBe(0);
+            expect(TimelineUtils.ease(easing, 1)).toBe(1);
+            expect(TimelineUtils.ease(easing, 2)).toBe(1);
+        });
+        expect(TimelineUtils.ease('ease-in-out', 0.5)).toBeCloseTo(0.5);
+        expect(TimelineUtils.ease('ease-in', 0.5)).toBeLessThan(0.5);
+    });
+});
+
+describe('TimelineUtils.sampleKeyframes', () => {
+    const keyframes: Keyframe<number>[] = [
+        { time: 100, value: 10 },
+        { time: 200, value: 20 },
+        { time: 400, value: 0, easing: 'ease-in-out' }
+    ];
+    const sample = (time: number) => TimelineUtils.sampleKeyframes(keyframes, time, TimelineUtils.interpolateNumber);
+
+    test('holds the first and last values outside the keyframes', () => {
+        expect(sample(0)).toBe(10);
+        expect(sample(1000)).toBe(0);
+    });
+
+    test('interpolates between neighbouring keyframes using the later easing', () => {
+        expect(sample(150)).toBe(15);
+        expect(sample(300)).toBeCloseTo(10);
+        expect(sample(250)).toBeGreaterThan(15);
+    });
+});
+
+describe('TimelineUtils boundaries', () => {
+    const timeline: Timeline = {
+        duration: 900,
+        nodeTracks: [],
+        linkTracks: [],
+        hiddenLinks: [],
+        addedLinks: [],
+        markers: [
+            { time: 0, name: 'first', caption: 'First' },
+            { time: 300, name: 'second', caption: 'Second' }
+        ]
+    };
+
+    test('steps between the start, markers and end', () => {
+        expect(TimelineUtils.getBoundaries(timeline)).toEqual([0, 300, 900]);
+        expect(TimelineUtils.getNextBoundary(timeline, 0)).toBe(300);
+        expect(TimelineUtils.getNextBoundary(timeline, 300)).toBe(900);
+        expect(TimelineUtils.getPreviousBoundary(timeline, 300)).toBe(0);
+        expect(TimelineUtils.getPreviousBoundary(timeline, 301)).toBe(300);
+    });
+
+    test('captions a frame with the marker it falls after', () => {
+        expect(TimelineUtils.seek([], timeline, 299).caption).toBe('First');
+        expect(TimelineUtils.seek([], timeline, 300)).toMatchObject({ markerIndex: 1, caption: 'Second' });
+    });
+});
+
+describe('TimelineUtils.seek', () => {
+    // 50(30,70) with 30 at the far left
+    const nodes = SequenceUtils.buildTree([50, 30, 70], 'bst').map((node, index) => ({ ...node, x: index * 100, y: index * 10 }));
+    const [root, left] = nodes;
+
+    test('moves tracked nodes and leaves the rest in place', () => {
+        const timeline = AnimationUtils.createMoveTimeline(nodes, new Map([[left.id, { x: 500, y: 100 }]]), 600);
+        const frame = TimelineUtils.seek(nodes, timeline, 300);
+
+        expect(frame.nodes[0]).toMatchObject({ x: root.x, y: root.y });
+        expect(frame.nodes[1].x).toBeCloseTo(300);
+        expect(TimelineUtils.seek(nodes, timeline, 600).nodes[1]).toMatchObject({ x: 500, y: 100 });
+        expect(nodes[1]).toMatchObject({ x: left.x, y: left.y }); // Input untouched
+    });
+
+    test('hides tree links covered by a track and draws the track instead', () => {
+        const timeline = AnimationUtils.createDeletionTimeline(root, left, undefined, 400);
+        const frame = TimelineUtils.seek(nodes, timeline, 200);
+
+        expect(frame.links.map(link => link.id)).toEqual([`${root.id}-${nodes[2].id}`]);
+        expect(frame.animatedLinks).toEqual([expect.objectContaining({
+            type: 'delete',
+            startSource: { x: root.x, y: root.y },
+            startTarget: { x: left.x, y: left.y },
+            progress: 0.5
+        })]);
+    });
+});
@@ -0,0 +1,139 @@
+// Timeline engine: keyframed node and link tracks that can be drawn at any moment,
+// so every animation is a pure function of time and can be paused, stepped and rewound
+import {
+    Position,
+    TreeNode,
+    LinkData,
+    AnimatedLinkData,
+    Easing,
+    Keyframe,
+    LinkSpan,
+    Timeline,
+    TimelineFrame
+} from './types';
+import TreeUtils from './treeUtils';
+
+const easings: Record<Easing, (t: number) => number> = {
+    'linear': t => t,
+    'ease-in': t => t * t * t,
+    'ease-out': t => 1 - Math.pow(1 - t, 3),
+    'ease-in-out': t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+};
+
+const isCovered = (span: { from: number, to: number }, time: number) => time >= span.from && time <= span.to;
+const spanId = (span: LinkSpan) => `${span.sourceId}-${span.targetId}`;
+
+const TimelineUtils = {
+    // Map linear progress (0 to 1) onto an easing curve
+    ease: (easing: Easing, t: number): number => {
+        return easings[easing](Math.min(Math.max(t, 0), 1));
+    },
+
+    interpolateNumber: (from: number, to: number, t: number): number => from + (to - from) * t,
+
+    interpolatePosition: (from: Position, to: Position, t: number): Position => ({
+        x: from.x + (to.x - from.x) * t,
+        y: from.y + (to.y - from.y) * t
+    }),
+
+    // Value of a track at a time; it holds its first value before the first keyframe and its last after the last
+    sampleKeyframes: <T>(keyframes: Keyframe<T>[], time: number, interpolate: (from: T, to: T, t: number) => T): T => {
+        if (time <= keyframes[0].time) return keyframes[0].value;
+
+        for (let i = 1; i < keyframes.length; i++) {
+            const next = keyframes[i];
+            if (time < next.time) {
+                const previous = keyframes[i - 1];
+                const t = (time - previous.time) / (next.time - previous.time);
+                return interpolate(previous.value, next.value, TimelineUtils.ease(next.easing ?? 'linear', t));
+            }
+        }
+        return keyframes[keyframes.length - 1].value;
+    },
+
+    // Start, end and marker times, in order, for stepping and pausing
+    getBoundaries: (timeline: Timeline): number[] => {
+        const times = [0, ...timeline.markers.map(marker => marker.time), timeline.duration];
+        return Array.from(new Set(times)).sort((a, b) => a - b);
+    },
+
+    // First boundary after a time (the end if there are none left)
+    getNextBoundary: (timeline: Timeline, time: number): number => {
+        return TimelineUtils.getBoundaries(timeline).find(boundary => boundary > time) ?? timeline.duration;
+    },
+
+    // Last boundary before a time (the start if there are none)
+    getPreviousBoundary: (timeline: Timeline, time: number): number => {
+        return TimelineUtils.getBoundaries(timeline).filter(boundary => boundary < time).pop() ?? 0;
+    },
+
+    // Index of the last marker at or before a time, or -1 before the first
+    getMarkerIndex: (timeline: Timeline, time: number): number => {
+        let index = -1;
+        timeline.markers.forEach((marker, markerIndex) => {
+            if (marker.time <= time) index = markerIndex;
+        });
+        return index;
+    },
+
+    // Draw a timeline at a time: positioned copies of the nodes, the links that keep their
+    // endpoints, and the animated links at their current progress
+    seek: (nodes: TreeNode[], timeline: Timeline, time: number): TimelineFrame => {
+        const clampedTime = Math.min(Math.max(time, 0), timeline.duration);
+
+        // Positioned copies of every node
+        const tracks = new Map(timeline.nodeTracks.map(track => [track.nodeId, track]));
+        const frameNodes = TreeUtils.relinkNodes(nodes.map(node => {
+            const track = tracks.get(node.id);
+            return track
+                ? { ...node, ...TimelineUtils.sampleKeyframes(track.keyframes, clampedTime, TimelineUtils.interpolatePosition) }
+                : { ...node };
+        }));
+        const nodeMap = TreeUtils.buildNodeMap(frameNodes);
+
+        // Tree links, less the ones hidden at this time, plus the ones added
+        const hiddenIds = new Set(timeline.hiddenLinks.filter(span => isCovered(span, clampedTime)).map(spanId));
+        const links: LinkData[] = [];
+        const addLink = (sourceId: string, targetId: string) => {
+            const source = nodeMap.get(sourceId);
+            const target = nodeMap.get(targetId);
+            if (source && target) {
+                links.push({ id: `${source.id}-${target.id}`, source, target, type: 'parent-child' });
+            }
+        };
+        frameNodes.forEach(node => {
+            [node.left, node.right].forEach(child => {
+                if (child && !hiddenIds.has(`${node.id}-${child.id}`)) addLink(node.id, child.id);
+            });
+        });
+        timeline.addedLinks
+            .filter(span => isCovered(span, clampedTime))
+            .forEach(span => addLink(span.sourceId, span.targetId));
+
+        // Links being changed
+        const at = (id: string): Position => ({ x: nodeMap.get(id)!.x, y: nodeMap.get(id)!.y });
+        const animatedLinks: AnimatedLinkData[] = timeline.linkTracks
+            .filter(track => isCovered(track, clampedTime))
+            .filter(track => [track.sourceId, track.targetId, track.endSourceId].every(id => !id || nodeMap.has(id)))
+            .map(track => ({
+                id: track.id,
+                startSource: at(track.sourceId),
+                startTarget: at(track.targetId),
+                endSource: at(track.endSourceId ?? track.sourceId),
+                endTarget: at(track.targetId),
+                type: track.type,
+                progress: TimelineUtils.sampleKeyframes(track.keyframes, clampedTime, TimelineUtils.interpolateNumber)
+            }));
+
+        const markerIndex = TimelineUtils.getMarkerIndex(timeline, clampedTime);
+        return {
+            nodes: frameNodes,
+            links,
+            animatedLinks,
+            markerIndex,
+            caption: timeline.markers[markerIndex]?.caption ?? ''
+        };
+    }
+};
+
+export default TimelineUtils;
@@ -0,0 +1,42 @@
+import TraversalUtils from './traversalUtils';
+import { TreeNode, TraversalOrder } from './types';
+
+// Build a flat node array for the tree 50(30(20,40),70)
+const buildTree = (): TreeNode[] => {
+    const n20: TreeNode = { id: 'n20', value: 20, x: 0, y: 0 };
+    const n40: TreeNode = { id: 'n40', value: 40, x: 0, y: 0 };
+    const n70: TreeNode = { id: 'n70', value: 70, x: 0, y: 0 };
+    const n30: TreeNode = { id: 'n30', value: 30, x: 0, y: 0, left: n20, right: n40 };
+    const n50: TreeNode = { id: 'n50', value: 50, x: 0, y: 0, left: n30, right: n70 };
+    return [n50, n30, n70, n20, n40];
+};
+
+const outputOf = (order: TraversalOrder) => TraversalUtils.planTraversal(buildTree(), order)
+    .filter(step => step.output !== undefined)
+    .map(step => step.output);
+
+describe('TraversalUtils.planTraversal', () => {
+    test('outputs keys in each order', () => {
+        expect(outputOf('pre-order')).toEqual([50, 30, 20, 40, 70]);
+        expect(outputOf('in-order')).toEqual([20, 30, 40, 50, 70]);
+        expect(outputOf('post-order')).toEqual([20, 40, 30, 70, 50]);
+        expect(outputOf('level-order')).toEqual([50, 30, 70, 20, 40]);
+    });
+
+    test('tracks the recursion stack', () => {
+        const steps = TraversalUtils.planTraversal(buildTree(), 'in-order');
+        const visit20 = steps.find(step => step.output === 20)!;
+        expect(visit20.pending).toEqual(['n50', 'n30', 'n20']);
+        expect(steps).toHaveLength(10); // Reach and visit for each node
+    });
+
+    test('tracks the queue', () => {
+        const steps = TraversalUtils.planTraversal(buildTree(), 'level-order');
+        expect(steps[0].pending).toEqual(['n30', 'n70']);
+        expect(steps[1].pending).toEqual(['n70', 'n20', 'n40']);
+    });
+
+    test('has no steps for an empty tree', () => {
+        expect(TraversalUtils.planTraversal([], 'pre-order')).toEqual([]);
+    });
+});
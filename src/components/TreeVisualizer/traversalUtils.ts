@@ -0,0 +1,80 @@
+// Traversal planning: every cursor move of a pre-order, in-order, post-order or level-order traversal
+import { TreeNode, TraversalOrder, TraversalStep } from './types';
+import TreeUtils from './treeUtils';
+
+const TraversalUtils = {
+    // Plan the traversal of the tree from its root as a list of animation frames
+    // Depth-first orders get a frame each time the recursion reaches a node and each time a key is output,
+    // so the recursion stack can be followed; level-order gets one frame per dequeued node
+    planTraversal: (nodes: TreeNode[], order: TraversalOrder): TraversalStep[] => {
+        const root = TreeUtils.findRootNode(nodes);
+        if (!root) return [];
+
+        return order === 'level-order'
+            ? TraversalUtils.planLevelOrder(nodes, root.id)
+            : TraversalUtils.planDepthFirst(nodes, root.id, order);
+    },
+
+    planDepthFirst: (nodes: TreeNode[], rootId: string, order: TraversalOrder): TraversalStep[] => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const steps: TraversalStep[] = [];
+        const stack: string[] = [];
+
+        const visit = (nodeId: string | undefined) => {
+            const node = nodeId ? nodeMap.get(nodeId) : undefined;
+            if (!node || stack.includes(node.id)) return;
+
+            stack.push(node.id);
+            if (order === 'pre-order') {
+                steps.push({ nodeId: node.id, output: node.value, pending: [...stack], message: `Visit ${node.value}, then its left and right subtrees` });
+            } else {
+                steps.push({ nodeId: node.id, pending: [...stack], message: `Reach ${node.value}: traverse its left subtree first` });
+            }
+
+            visit(node.left?.id);
+            if (order === 'in-order') {
+                steps.push({ nodeId: node.id, output: node.value, pending: [...stack], message: `Left subtree of ${node.value} done: visit ${node.value}, then its right subtree` });
+            }
+
+            visit(node.right?.id);
+            if (order === 'post-order') {
+                steps.push({ nodeId: node.id, output: node.value, pending: [...stack], message: `Both subtrees of ${node.value} done: visit ${node.value}` });
+            }
+            stack.pop();
+        };
+
+        visit(rootId);
+        return steps;
+    },
+
+    planLevelOrder: (nodes: TreeNode[], rootId: string): TraversalStep[] => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const steps: TraversalStep[] = [];
+        const queue: string[] = [rootId];
+        const seen = new Set<string>(queue);
+
+        while (queue.length > 0) {
+            const node = nodeMap.get(queue.shift()!);
+            if (!node) continue;
+
+            const children = [node.left, node.right]
+                .filter((child): child is TreeNode => !!child && nodeMap.has(child.id) && !seen.has(child.id));
+            children.forEach(child => {
+                seen.add(child.id);
+                queue.push(child.id);
+            });
+
+            const enqueued = children.map(child => nodeMap.get(child.id)!.value);
+            steps.push({
+                nodeId: node.id,
+                output: node.value,
+                pending: [...queue],
+                message: `Dequeue and visit ${node.value}` + (enqueued.length > 0 ? `, then enqueue ${enqueued.join(' and ')}` : '')
+            });
+        }
+
+        return steps;
+    }
+};
+
+export default TraversalUtils;
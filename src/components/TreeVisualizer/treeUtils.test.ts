@@ -0,0 +1,63 @@
+import TreeUtils from './treeUtils';
+import SequenceUtils from './sequenceUtils';
+
+// 50(30(,40),70(60,)): both double rotations are possible at 50
+const nodes = SequenceUtils.buildTree([50, 30, 70, 40, 60], 'bst');
+const idOf = (value: number) => nodes.find(node => node.value === value)!.id;
+const valueOf = (nodeId: string | undefined) => nodes.find(node => node.id === nodeId)?.value;
+
+describe('TreeUtils.planDoubleRotation', () => {
+    test('names x, y and z for a left-right rotation', () => {
+        const plan = TreeUtils.planDoubleRotation(nodes, idOf(50), 'LR')!;
+        expect([plan.zId, plan.yId, plan.xId].map(valueOf)).toEqual([50, 30, 40]);
+        expect(plan.rotations).toEqual([
+            { nodeId: idOf(30), direction: 'left' },
+            { nodeId: idOf(50), direction: 'right' }
+        ]);
+    });
+
+    test('mirrors the plan for a right-left rotation', () => {
+        const plan = TreeUtils.planDoubleRotation(nodes, idOf(50), 'RL')!;
+        expect([plan.zId, plan.yId, plan.xId].map(valueOf)).toEqual([50, 70, 60]);
+        expect(plan.rotations.map(rotation => rotation.direction)).toEqual(['right', 'left']);
+    });
+
+    test('lifts x above y and z once both rotations are applied', () => {
+        const plan = TreeUtils.planDoubleRotation(nodes, idOf(50), 'LR')!;
+        const rotated = plan.rotations.reduce(
+            (treeNodes, rotation) => TreeUtils.rotateNodes(treeNodes, rotation.nodeId, rotation.direction),
+            nodes
+        );
+        const root = TreeUtils.findRootNode(rotated)!;
+        expect([root.value, root.left?.id, root.right?.id]).toEqual([40, idOf(30), idOf(50)]);
+    });
+
+    test('returns null without the inner grandchild', () => {
+        const leftOnly = SequenceUtils.buildTree([50, 30, 20], 'bst');
+        expect(TreeUtils.planDoubleRotation(leftOnly, leftOnly[0].id, 'LR')).toBeNull();
+        expect(TreeUtils.planDoubleRotation(leftOnly, leftOnly[0].id, 'RL')).toBeNull();
+    });
+});
+
+describe('TreeUtils.findDifference', () => {
+    // 50(30(20,40),70)
+    const expected = SequenceUtils.buildTree([50, 30, 70, 20, 40], 'bst');
+
+    test('accepts the same shape and keys, whatever the node ids', () => {
+        expect(TreeUtils.findDifference(SequenceUtils.buildTree([50, 70, 30, 40, 20], 'bst'), expected)).toBeNull();
+    });
+
+    test('names the first place the trees differ', () => {
+        expect(TreeUtils.findDifference(SequenceUtils.buildTree([30, 20, 50, 40, 70], 'bst'), expected))
+            .toBe('the root should be 50, not 30');
+        expect(TreeUtils.findDifference(SequenceUtils.buildTree([50, 30, 70, 20], 'bst'), expected))
+            .toBe('the right child of 30 should be 40, but it is empty');
+        expect(TreeUtils.findDifference(SequenceUtils.buildTree([50, 30, 70, 20, 40, 80], 'bst'), expected))
+            .toBe('the right child of 70 should be empty, but it holds 80');
+    });
+
+    test('rejects nodes left off the tree', () => {
+        const detached = [...SequenceUtils.buildTree([50, 30, 70, 20], 'bst'), { id: 'loose', value: 40, x: 0, y: 0 }];
+        expect(TreeUtils.findDifference(detached, expected)).toBe('every node must be joined to the tree');
+    });
+});
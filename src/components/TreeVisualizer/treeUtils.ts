@@ -1,5 +1,10 @@
 // Tree utility functions for manipulating and working with tree nodes
-import { TreeNode } from './types';
+import { TreeNode, RotationDirection, DoubleRotationCase, DoubleRotation } from './types';
+
+// Describe a node's position for feedback, e.g. "the root" or "the left child of 40"
+const describePlace = (parent: TreeNode | null, side: 'left' | 'right'): string => {
+    return parent ? `the ${side} child of ${parent.value}` : 'the root';
+};
 
 const TreeUtils = {
     // Deep copy a node and its children
@@ -28,6 +33,114 @@ const TreeUtils = {
         return null;
     },
 
+    // List a node followed by each of its ancestors, ending at the root
+    getAncestorPath: (nodes: TreeNode[], nodeId: string): string[] => {
+        const path: string[] = [];
+        let currentId: string | undefined = nodeId;
+        while (currentId && !path.includes(currentId)) {
+            path.push(currentId);
+            currentId = TreeUtils.findParentNode(nodes, currentId)?.parent.id;
+        }
+        return path;
+    },
+
+    // Find all nodes that are not the child of any other node
+    findRootNodes: (nodes: TreeNode[]): TreeNode[] => {
+        const childIds = new Set<string>();
+        nodes.forEach(node => {
+            if (node.left) childIds.add(node.left.id);
+            if (node.right) childIds.add(node.right.id);
+        });
+        return nodes.filter(node => !childIds.has(node.id));
+    },
+
+    // Find the root of the main tree (the first root in array order)
+    findRootNode: (nodes: TreeNode[]): TreeNode | null => {
+        const roots = TreeUtils.findRootNodes(nodes);
+        return roots.length > 0 ? roots[0] : null;
+    },
+
+    // Attach a new node as the left or right child of an existing node
+    // Returns a new array containing the copied parent and the new child
+    attachChild: (nodes: TreeNode[], parentId: string, child: TreeNode, isLeft: boolean): TreeNode[] => {
+        const updatedNodes = [...nodes];
+        const parentResult = TreeUtils.findAndCopyNode(updatedNodes, parentId);
+        if (!parentResult) return nodes;
+
+        if (isLeft) {
+            parentResult.node.left = child;
+        } else {
+            parentResult.node.right = child;
+        }
+
+        return [...updatedNodes, child];
+    },
+
+    // Point every left/right reference at the node object held in the array
+    relinkNodes: (nodes: TreeNode[]): TreeNode[] => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        nodes.forEach(node => {
+            if (node.left) node.left = nodeMap.get(node.left.id);
+            if (node.right) node.right = nodeMap.get(node.right.id);
+        });
+        return nodes;
+    },
+
+    // Rotate the subtree rooted at a node, returning a new array of nodes
+    // Left rotation: the right child becomes the subtree root and the node becomes its left child
+    // Right rotation mirrors this. The child's inner subtree is reparented onto the node.
+    rotateNodes: (nodes: TreeNode[], nodeId: string, direction: RotationDirection): TreeNode[] => {
+        const updatedNodes = nodes.map(node => ({ ...node }));
+        const nodeMap = TreeUtils.buildNodeMap(updatedNodes);
+
+        const childProperty = direction === 'left' ? 'right' : 'left';
+        const innerProperty = direction === 'left' ? 'left' : 'right';
+
+        const node = nodeMap.get(nodeId);
+        const childId = node?.[childProperty]?.id;
+        const child = childId ? nodeMap.get(childId) : undefined;
+        if (!node || !child) return nodes;
+
+        const parentInfo = TreeUtils.findParentNode(updatedNodes, node.id);
+
+        node[childProperty] = child[innerProperty];
+        child[innerProperty] = node;
+
+        if (parentInfo) {
+            if (parentInfo.isLeftChild) {
+                parentInfo.parent.left = child;
+            } else {
+                parentInfo.parent.right = child;
+            }
+        }
+
+        return TreeUtils.relinkNodes(updatedNodes);
+    },
+
+    // Plan a double rotation at z: LR rotates z's left child y left and then z right,
+    // RL mirrors it. Returns null if the grandchild x that would rise doesn't exist.
+    planDoubleRotation: (nodes: TreeNode[], nodeId: string, doubleCase: DoubleRotationCase): DoubleRotation | null => {
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const isLR = doubleCase === 'LR';
+
+        const z = nodeMap.get(nodeId);
+        const yId = isLR ? z?.left?.id : z?.right?.id;
+        const y = yId ? nodeMap.get(yId) : undefined;
+        const xId = isLR ? y?.right?.id : y?.left?.id;
+        if (!z || !y || !xId || !nodeMap.has(xId)) return null;
+
+        return {
+            doubleCase,
+            zId: z.id,
+            yId: y.id,
+            xId,
+            rotations: [
+                { nodeId: y.id, direction: isLR ? 'left' : 'right' },
+                { nodeId: z.id, direction: isLR ? 'right' : 'left' }
+            ]
+        };
+    },
+
     // Build a map of node IDs to node objects
     buildNodeMap: (nodes: TreeNode[]): Map<string, TreeNode> => {
         const nodeMap = new Map<string, TreeNode>();
@@ -116,6 +229,36 @@ const TreeUtils = {
             return null;
         }
         return result.node;
+    },
+
+    // First place the tree differs from the expected one, walking both in pre-order,
+    // or null when they have the same shape and keys
+    findDifference: (nodes: TreeNode[], expected: TreeNode[]): string | null => {
+        if (TreeUtils.findRootNodes(nodes).length > 1) {
+            return 'every node must be joined to the tree';
+        }
+
+        const nodeMap = TreeUtils.buildNodeMap(nodes);
+        const expectedMap = TreeUtils.buildNodeMap(expected);
+        const compare = (
+            node: TreeNode | undefined,
+            expectedNode: TreeNode | undefined,
+            parent: TreeNode | null,
+            side: 'left' | 'right'
+        ): string | null => {
+            const place = describePlace(parent, side);
+            if (!node && !expectedNode) return null;
+            if (!node) return `${place} should be ${expectedNode!.value}, but it is empty`;
+            if (!expectedNode) return `${place} should be empty, but it holds ${node.value}`;
+            if (node.value !== expectedNode.value) return `${place} should be ${expectedNode.value}, not ${node.value}`;
+
+            const child = (treeNode: TreeNode, map: Map<string, TreeNode>, childSide: 'left' | 'right') =>
+                treeNode[childSide] ? map.get(treeNode[childSide]!.id) : undefined;
+            return compare(child(node, nodeMap, 'left'), child(expectedNode, expectedMap, 'left'), expectedNode, 'left')
+                ?? compare(child(node, nodeMap, 'right'), child(expectedNode, expectedMap, 'right'), expectedNode, 'right');
+        };
+
+        return compare(TreeUtils.findRootNode(nodes) ?? undefined, TreeUtils.findRootNode(expected) ?? undefined, null, 'left');
     }
 };
 
@@ -1,5 +1,4 @@
 // Common interfaces and types for the TreeVisualizer component
-import { SimulationNodeDatum } from 'd3';
 
 // Common position interface
 export interface Position {
@@ -10,12 +9,22 @@ export interface Position {
 // Type for rotation direction
 export type RotationDirection = 'left' | 'right';
 
+// Where the keyboard focus moves from a node: up to its parent or down to a child
+export type FocusMove = 'parent' | 'left' | 'right';
+
+// Balancing scheme applied after inserts and deletes
+export type TreeMode = 'bst' | 'avl' | 'red-black' | 'splay';
+
+// Node colour used by red-black trees
+export type NodeColor = 'red' | 'black';
+
 // Node data structure
 export interface TreeNode extends Position {
     id: string;
     value: number;
     left?: TreeNode;
     right?: TreeNode;
+    color?: NodeColor; // Only set in red-black mode
 }
 
 // Link data structure - references the nodes directly
@@ -32,18 +41,330 @@ export interface PreviewNode extends Position {
     parentId: string;
     isLeft: boolean;
     isChild: boolean;
+    typedValue?: string; // Key being typed over the default value, if any
 }
 
-// Interface for simulation node with target position
-export interface SimulationNode extends SimulationNodeDatum {
-    id: string;
+// Result of walking down a BST from the root looking for a value
+export interface SearchPath {
+    visitedIds: string[]; // Nodes compared against, in order from the root
+    found: boolean; // True if a node with the value already exists (last visited id)
+    parentId: string | null; // Node the value would be attached to (null for an empty tree)
+    isLeft: boolean; // Whether the value belongs in the parent's left slot
+}
+
+// A limit on the keys a node may hold, and the node that sets it
+export interface ValueBound {
+    value: number;
+    nodeId: string;
+}
+
+// Open interval of keys allowed at a position in a BST (null means unbounded)
+export interface ValueRange {
+    min: ValueBound | null;
+    max: ValueBound | null;
+}
+
+// A node whose key falls outside the range allowed by its ancestors
+export interface OrderingViolation {
+    nodeId: string;
+    boundId: string; // Ancestor whose key it conflicts with
+    message: string;
+}
+
+// Result of checking BST ordering across the whole tree
+export interface OrderingCheck {
+    ranges: Map<string, ValueRange>; // Range allowed at each node by its ancestors
+    violations: OrderingViolation[];
+}
+
+// Which node replaces a deleted node that has two children
+export type ReplacementStrategy = 'successor' | 'predecessor';
+
+// Structural changes needed to delete a node from a BST
+export interface DeletionPlan {
+    targetId: string; // Node the user asked to delete
+    replacementPath: string[]; // Nodes walked from the target to its replacement (two-child case only)
+    removedId: string; // Node physically removed: the target, or its replacement
+    parentId: string | null; // Parent of the removed node (null if it was a root)
+    isLeftChild: boolean; // Whether the removed node is its parent's left child
+    childId: string | null; // The removed node's only child, spliced up into its place
+}
+
+// Spacing used by the automatic tree layout
+export interface LayoutOptions {
+    width: number; // Width of the canvas the tree is centred in
+    marginX: number; // Minimum gap between the outermost nodes and the canvas edge
+    top: number; // y position of the root
+    levelHeight: number; // Vertical distance between depths
+    maxSpacing: number; // Horizontal distance between in-order neighbours when there is room
+    minSpacing: number; // Spacing is never squeezed below this; wider trees extend past the canvas edges
+}
+
+// Pan and zoom applied to the tree, as in d3-zoom: screen = tree * k + (x, y)
+export interface ViewTransform {
     x: number;
     y: number;
-    targetX: number;
-    targetY: number;
-    value: number;
-    left?: { id: string };
-    right?: { id: string };
+    k: number;
+}
+
+// Box enclosing a set of points
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+// A single rotation in a larger sequence
+export interface RotationStep {
+    nodeId: string;
+    direction: RotationDirection;
+}
+
+// The four AVL imbalance cases, named by the path from the unbalanced node to the taller grandchild
+export type AVLCase = 'LL' | 'LR' | 'RR' | 'RL';
+
+// Double rotations, named by the path from the top node to the grandchild that rises
+export type DoubleRotationCase = 'LR' | 'RL';
+
+// A double rotation in textbook terms: z is the top node, y its child and x the grandchild
+// that ends up above both of them
+export interface DoubleRotation {
+    doubleCase: DoubleRotationCase;
+    zId: string;
+    yId: string;
+    xId: string;
+    rotations: RotationStep[]; // At y first, then at z
+}
+
+// Rotations needed to fix the first unbalanced node found walking up an AVL tree
+export interface AVLRebalance {
+    walkedIds: string[]; // Nodes checked on the way up, ending at the unbalanced node
+    unbalancedId: string | null; // First node with |balance factor| > 1 (null if the tree is balanced)
+    imbalanceCase?: AVLCase;
+    rotations: RotationStep[];
+}
+
+// A colour change applied during a red-black fix-up
+export interface ColorChange {
+    nodeId: string;
+    color: NodeColor;
+}
+
+// A rotation waiting to be animated, with the narration shown while it runs
+export interface QueuedRotation extends RotationStep {
+    type: 'rotate';
+    message: string;
+}
+
+// One narrated step of a red-black insertion fix-up
+export type RedBlackFixupStep =
+    | { type: 'recolor', changes: ColorChange[], message: string }
+    | QueuedRotation;
+
+// The three splay step cases, named by the shape of the node, its parent and grandparent
+export type SplayCase = 'zig' | 'zig-zig' | 'zig-zag';
+
+// Operations waiting to run once the current animation finishes
+export type PendingOperation =
+    | RedBlackFixupStep
+    | { type: 'avl-rebalance', fromId: string }
+    | { type: 'pause', message: string } // Hold on a message before the next operation
+    | { type: 'insert', value: number, mode: TreeMode }; // Insert as a mode would, whatever the current mode
+
+// Orders in which a traversal visits the nodes
+export type TraversalOrder = 'pre-order' | 'in-order' | 'post-order' | 'level-order';
+
+// One frame of an animated traversal
+export interface TraversalStep {
+    nodeId: string; // Node under the cursor
+    output?: number; // Key added to the output at this step, if any
+    pending: string[]; // Recursion stack (bottom first) or queue (front first) after this step
+    message: string;
+}
+
+// Keys parsed from a typed insertion sequence or level-order array, in insertion order
+export type BuildInput =
+    | { ok: true, keys: number[], format: 'sequence' | 'level-order' }
+    | { ok: false, error: string };
+
+// ASCII drawings matching the C starter code: showTree's diagonal edges, or turned on its side
+export type AsciiFormat = 'show-tree' | 'sideways';
+
+// Text notations a tree can be pasted in
+export type ImportFormat = 'dot' | 'bracket' | AsciiFormat;
+
+// Result of parsing a pasted tree; a failure gives the span of the offending token in the text
+export type TreeImportResult =
+    | { ok: true, nodes: TreeNode[], format: ImportFormat }
+    | { ok: false, error: string, start: number, end: number };
+
+// C functions shown in the code panel
+export type CodeFunction = 'search' | 'insert' | 'delete-successor' | 'delete-predecessor' | 'rotate-left' | 'rotate-right';
+
+// A line of C, with a name for the lines an animation step can stop on
+export interface CodeLine {
+    text: string;
+    id?: string;
+}
+
+// A pointer in the C code and the node it points at (null for NULL)
+export interface CodeVariable {
+    name: string;
+    nodeId: string | null;
+}
+
+// Where the C code has got to: the line being run and the pointers in scope
+export interface CodeTrace {
+    fn: CodeFunction;
+    lineId: string;
+    key?: number; // The key argument, for searches, inserts and deletes
+    variables: CodeVariable[];
+}
+
+// Shape statistics for a whole tree
+export interface TreeStats {
+    count: number;
+    height: number; // -1 for an empty tree, 0 for a single node
+    leaves: number;
+    min: number | null;
+    max: number | null;
+    isPerfect: boolean; // Every level completely full
+    isPerfectlyBalanced: boolean; // At every node, the left and right subtree sizes differ by at most one
+    isComplete: boolean; // Every level full except possibly the last, which is filled from the left
+    isDegenerate: boolean; // No node has two children, so the tree is a linked list
+    averageSearchCost: number; // Mean comparisons to find a key that is in the tree
+}
+
+// Position and size of the subtree at a single node
+export interface NodeStats {
+    depth: number;
+    size: number;
+    height: number;
+}
+
+// A node as stored in a saved tree: children are referenced by id rather than by object
+export interface SavedNode extends Omit<TreeNode, 'left' | 'right'> {
+    left?: string;
+    right?: string;
+}
+
+// Versioned document used for JSON files and shareable links
+export interface SavedTree {
+    format: 'cse-visualisations-tree';
+    version: number;
+    mode: TreeMode;
+    nodes: SavedNode[];
+}
+
+// Outcome of loading a saved tree: the rebuilt nodes, or every problem found
+export type TreeLoadResult =
+    | { ok: true, nodes: TreeNode[], mode: TreeMode }
+    | { ok: false, errors: string[] };
+
+// A recorded rotation, with the child it raised so it can be undone by rotating the other way there
+export interface RecordedRotation extends RotationStep {
+    childId: string;
+}
+
+// An undoable edit: the tree before and after it, plus the rotations that made it (if it was one)
+export interface HistoryEntry {
+    label: string;
+    before: TreeNode[];
+    after: TreeNode[];
+    rotations?: RecordedRotation[]; // In the order they were made; an LR or RL double rotation has two
+}
+
+// Edits that can be undone, and edits undone that can be redone (latest last)
+export interface HistoryState {
+    undo: HistoryEntry[];
+    redo: HistoryEntry[];
+}
+
+// Formats the tree can be exported in: pictures of the canvas, or LaTeX and Graphviz source
+export type ExportFormat = 'svg' | 'png-2x' | 'png-4x' | 'tikz' | 'dot';
+
+// Kinds of entry in the operation log
+export type LogKind = 'create' | 'insert' | 'delete' | 'rotate' | 'recolor' | 'move' | 'edit' | 'undo' | 'redo' | 'build' | 'load' | 'quiz';
+
+// One sentence in the operation log, with the nodes it involved (highlighted when the entry is clicked)
+export interface LogEntry {
+    id: string;
+    time: number; // Milliseconds since the epoch
+    kind: LogKind;
+    text: string;
+    nodeIds: string[];
+}
+
+// Named phases a rotation is played back in
+export type RotationPhaseName = 'detach' | 'move' | 'attach' | 'reparent';
+
+// Curve a keyframe is reached along
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+// A value a track reaches at a moment of its timeline (milliseconds from the start)
+export interface Keyframe<T> {
+    time: number;
+    value: T;
+    easing?: Easing; // Curve from the previous keyframe to this one (linear by default)
+}
+
+// Where one node is over a timeline; nodes without a track stay where they are
+export interface NodeTrack {
+    nodeId: string;
+    keyframes: Keyframe<Position>[];
+}
+
+// A link being created, removed or swung across; its ends follow the nodes it joins
+export interface LinkTrack {
+    id: string;
+    type: AnimatedLinkData['type'];
+    sourceId: string;
+    targetId: string;
+    endSourceId?: string; // Node a reparented link's source swings to
+    from: number; // Drawn from this time...
+    to: number; // ...until this one
+    keyframes: Keyframe<number>[]; // Progress from 0 to 1
+}
+
+// A plain parent-child link hidden or added for part of a timeline
+export interface LinkSpan {
+    sourceId: string;
+    targetId: string;
+    from: number;
+    to: number;
+}
+
+// Start of a named stretch of a timeline, such as a rotation phase
+export interface TimelineMarker {
+    time: number;
+    name: string;
+    caption: string;
+}
+
+// A fixed-length animation that can be drawn at any moment
+export interface Timeline {
+    duration: number;
+    nodeTracks: NodeTrack[];
+    linkTracks: LinkTrack[];
+    hiddenLinks: LinkSpan[]; // Tree links not drawn while their span covers the time
+    addedLinks: LinkSpan[]; // Links drawn while their span covers the time, as if already in the tree
+    markers: TimelineMarker[];
+}
+
+// A timeline being played, and the change made to the tree once it ends
+export interface TimelinePlayback {
+    timeline: Timeline;
+    finish: (nodes: TreeNode[]) => TreeNode[];
+}
+
+// What to draw at one moment of a timeline
+export interface TimelineFrame {
+    nodes: TreeNode[]; // Copies of the nodes at their positions for this moment
+    links: LinkData[]; // Links that are not changing
+    animatedLinks: AnimatedLinkData[]; // Links being removed, added or swung across
+    markerIndex: number; // Marker the moment falls after, or -1 before the first
+    caption: string;
 }
 
 // Link animation states
@@ -66,13 +387,20 @@ export interface NodeProps {
     onMouseEnter: (id: string) => void;
     onMouseLeave: () => void;
     onContextMenu: (event: React.MouseEvent, node: TreeNode) => void;
+    onDoubleClick?: (node: TreeNode) => void;
+    onLongPress?: (node: TreeNode) => void; // Touch and pen only; mouse users right-click
     isHighlighted: boolean;
+    highlightColor?: string; // Outline colour used while highlighted (defaults to the hover style)
+    annotation?: string; // Small label drawn under the node (e.g. AVL height and balance factor)
+    annotationColor?: string;
 }
 
 // Props for Link component
 export interface LinkProps {
     link: LinkData | AnimatedLinkData;
     nodeAnimationComplete?: boolean;
+    isHighlighted?: boolean;
+    highlightColor?: string; // Defaults to the search path orange
 }
 
 // Props for RotationControls component
@@ -80,4 +408,35 @@ export interface RotationControlsProps {
     node: TreeNode;
     onRotateLeft: (id: string) => void;
     onRotateRight: (id: string) => void;
-} 
\ No newline at end of file
+    onRotateLeftRight?: (id: string) => void; // Only offered when the left child has a right child
+    onRotateRightLeft?: (id: string) => void; // Only offered when the right child has a left child
+}
+
+// Props for NodeEditor component
+export interface NodeEditorProps {
+    node: TreeNode;
+    error?: string | null; // Why the last attempted key was rejected
+    onCommit: (text: string) => void;
+    onCancel: () => void;
+} 
+
+// How hard the generated quiz questions are
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+// What a quiz question asks the student to do to its tree
+export type QuizTask =
+    | { kind: 'rotate', nodeId: string, direction: RotationDirection }
+    | { kind: 'insert', value: number, mode: 'bst' | 'avl' };
+
+// A generated question: the tree it starts from and the tree the student should end up with
+export interface QuizQuestion {
+    prompt: string;
+    task: QuizTask;
+    start: TreeNode[];
+    answer: TreeNode[];
+}
+
+export interface QuizScore {
+    correct: number;
+    attempted: number;
+}
@@ -0,0 +1,38 @@
+import ViewUtils from './viewUtils';
+import { TreeNode } from './types';
+
+const node = (id: string, x: number, y: number): TreeNode => ({ id, value: 0, x, y });
+
+describe('ViewUtils point conversion', () => {
+    test('maps canvas points into tree coordinates and back', () => {
+        const transform = { x: 100, y: -50, k: 2 };
+        const treePoint = ViewUtils.toTreePoint(transform, { x: 300, y: 150 });
+        expect(treePoint).toEqual({ x: 100, y: 100 });
+        expect(ViewUtils.toScreenPoint(transform, treePoint)).toEqual({ x: 300, y: 150 });
+    });
+});
+
+describe('ViewUtils.fitToView', () => {
+    test('shrinks a wide tree to fit and centres it', () => {
+        const nodes = [node('a', -500, 60), node('b', 1500, 60), node('c', 500, 380)];
+        const transform = ViewUtils.fitToView(nodes, 1000, 800, 0);
+
+        expect(transform.k).toBeCloseTo(0.5);
+        expect(ViewUtils.toScreenPoint(transform, { x: -500, y: 60 }).x).toBeCloseTo(0);
+        expect(ViewUtils.toScreenPoint(transform, { x: 500, y: 220 })).toEqual({ x: 500, y: 400 });
+    });
+
+    test('does not enlarge small trees and leaves an empty view alone', () => {
+        expect(ViewUtils.fitToView([node('a', 10, 10)], 1000, 800).k).toBe(1);
+        expect(ViewUtils.fitToView([], 1000, 800)).toEqual(ViewUtils.identity);
+    });
+});
+
+describe('ViewUtils.zoomAround', () => {
+    test('keeps the point under the zoom centre fixed and clamps the scale', () => {
+        const zoomed = ViewUtils.zoomAround(ViewUtils.identity, 2, { x: 400, y: 300 });
+        expect(ViewUtils.toTreePoint(zoomed, { x: 400, y: 300 })).toEqual({ x: 400, y: 300 });
+        expect(zoomed.k).toBe(2);
+        expect(ViewUtils.zoomAround(zoomed, 100, { x: 0, y: 0 }).k).toBe(ViewUtils.maxScale);
+    });
+});
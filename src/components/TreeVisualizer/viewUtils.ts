@@ -0,0 +1,74 @@
+// Pan and zoom calculations for the canvas
+// The tree is laid out in its own coordinates; a view transform maps them onto the screen
+import { Position, TreeNode, ViewTransform, Bounds } from './types';
+
+const ViewUtils = {
+    identity: { x: 0, y: 0, k: 1 } as ViewTransform,
+
+    // Zoom limits, as a scale factor
+    minScale: 0.2,
+    maxScale: 4,
+
+    clampScale: (k: number): number => {
+        return Math.min(ViewUtils.maxScale, Math.max(ViewUtils.minScale, k));
+    },
+
+    // Convert a point on the canvas into tree coordinates (used for all hit-testing)
+    toTreePoint: (transform: ViewTransform, point: Position): Position => ({
+        x: (point.x - transform.x) / transform.k,
+        y: (point.y - transform.y) / transform.k
+    }),
+
+    // Convert a point in tree coordinates onto the canvas
+    toScreenPoint: (transform: ViewTransform, point: Position): Position => ({
+        x: point.x * transform.k + transform.x,
+        y: point.y * transform.k + transform.y
+    }),
+
+    // SVG transform attribute for a view transform
+    toTransformAttribute: (transform: ViewTransform): string => {
+        return `translate(${transform.x},${transform.y}) scale(${transform.k})`;
+    },
+
+    // Box around every node centre, or null for an empty tree
+    getBounds: (nodes: TreeNode[]): Bounds | null => {
+        if (nodes.length === 0) return null;
+
+        return nodes.reduce((bounds, node) => ({
+            minX: Math.min(bounds.minX, node.x),
+            minY: Math.min(bounds.minY, node.y),
+            maxX: Math.max(bounds.maxX, node.x),
+            maxY: Math.max(bounds.maxY, node.y)
+        }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+    },
+
+    // Scale and centre the tree so every node fits on the canvas with some padding
+    // Small trees are not blown up past their natural size
+    fitToView: (nodes: TreeNode[], width: number, height: number, padding: number = 60): ViewTransform => {
+        const bounds = ViewUtils.getBounds(nodes);
+        if (!bounds) return ViewUtils.identity;
+
+        const treeWidth = bounds.maxX - bounds.minX + 2 * padding;
+        const treeHeight = bounds.maxY - bounds.minY + 2 * padding;
+        const k = ViewUtils.clampScale(Math.min(1, width / treeWidth, height / treeHeight));
+
+        return {
+            x: width / 2 - k * (bounds.minX + bounds.maxX) / 2,
+            y: height / 2 - k * (bounds.minY + bounds.maxY) / 2,
+            k
+        };
+    },
+
+    // Zoom by a factor while keeping a point on the canvas (e.g. its centre) fixed
+    zoomAround: (transform: ViewTransform, factor: number, point: Position): ViewTransform => {
+        const k = ViewUtils.clampScale(transform.k * factor);
+        const treePoint = ViewUtils.toTreePoint(transform, point);
+        return {
+            x: point.x - treePoint.x * k,
+            y: point.y - treePoint.y * k,
+            k
+        };
+    }
+};
+
+export default ViewUtils;